@@ -0,0 +1,414 @@
+import * as Utility from '@Shared/utility/index.js';
+import {
+    AddOptions,
+    BaseItem,
+    Item,
+    ItemContainer,
+    ItemContainerOwner,
+    ItemErrorCode,
+    ItemQuery,
+    ItemRemoveOrder,
+    ItemResult,
+    ItemSortMode,
+    ItemSummary,
+} from '../shared/types.js';
+import { ItemIDs } from '../shared/ignoreItemIds.js';
+import { ItemManagerConfig } from '../shared/config.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Check if an item is, or holds, the item with the uid
+ *
+ * @param {Readonly<Item>} item
+ * @param {string} uid
+ * @return {boolean}
+ */
+function containsUid(item: Readonly<Item>, uid: string): boolean {
+    if (item.uid === uid) {
+        return true;
+    }
+
+    const contents: Item[] = Array.isArray(item.data?.items) ? item.data.items : [];
+    return contents.some((x) => containsUid(x, uid));
+}
+
+/**
+ * Manages the contents of a container item, ie. a backpack inside of a player inventory
+ *
+ * The owner can be any manager with `getContainer`, including another container item manager
+ *
+ * Every change saves the parent inventory, the contents count towards the weight of the parent
+ *
+ * @export
+ * @param {ItemContainerOwner} owner
+ * @param {string} uid The uid of the container item
+ * @return
+ */
+export async function useContainerItemManager(owner: ItemContainerOwner, uid: string) {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+    const parent = owner.getContainer();
+
+    const containerItem = (await parent.getItems()).find((x) => x.uid === uid);
+    const definition = containerItem ? itemManager.getBaseItem(containerItem.id as ItemIDs)?.container : undefined;
+
+    /**
+     * Returns the slot and weight limits of the container item, and the allow and deny lists of its parent inventory
+     *
+     * @return {Omit<AddOptions, 'data'>}
+     */
+    function getOptions(): Omit<AddOptions, 'data'> {
+        const { allow, deny } = parent.getOptions();
+        return {
+            maxCells: definition?.maxCells ?? ItemManagerConfig.slots.maxCells,
+            maxWeight: definition?.maxWeight ?? ItemManagerConfig.weight.maxWeight,
+            allow,
+            deny,
+        };
+    }
+
+    /**
+     * Checks the item rules for adding the item, the container uses the rules of its parent inventory
+     *
+     * @param {Readonly<BaseItem>} item
+     * @return {ItemResult}
+     */
+    function checkRules(item: Readonly<BaseItem> | undefined): ItemResult {
+        if (!item) {
+            return { success: true };
+        }
+
+        const violatedRule = ruleManager.check(
+            item,
+            { action: 'add', container: parent.type, compartment: parent.compartment },
+            parent.rules,
+        );
+
+        if (!violatedRule) {
+            return { success: true };
+        }
+
+        return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
+    }
+
+    /**
+     * Runs a change on the contents, and saves the contents in the parent inventory
+     *
+     * The parent inventory is verified again, as the contents count towards its weight
+     *
+     * Holds the locks of all parent inventories while reading and saving the parent inventory
+     *
+     * @template T
+     * @param {(items: Item[]) => ItemResult<T & { items: Item[] }>} change
+     * @return {Promise<ItemResult<T & { items: Item[] }>>}
+     */
+    async function updateContents<T extends object>(
+        change: (items: Item[]) => ItemResult<T & { items: Item[] }>,
+    ): Promise<ItemResult<T & { items: Item[] }>> {
+        return lockManager.run(parent.lockKeys, async () => {
+            const parentItems = await parent.getItems();
+            const index = parentItems.findIndex((x) => x.uid === uid);
+            if (index <= -1) {
+                return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
+            }
+
+            if (!definition) {
+                return itemErrors.fail(ItemErrorCode.NOT_A_CONTAINER, { uid });
+            }
+
+            const result = change(itemArrayManager.getContents(parentItems[index]));
+            if (result.success === false) {
+                return result;
+            }
+
+            parentItems[index].data = { ...parentItems[index].data, items: result.items };
+
+            const parentResult = itemArrayManager.verify(parentItems, parent.getOptions());
+            if (parentResult.success === false) {
+                return parentResult;
+            }
+
+            await parent.setItems(parentItems);
+            parent.invokeOnItemsUpdated(parentItems);
+
+            return result;
+        });
+    }
+
+    /**
+     * Finds a similar item based on `id` or creates a new item and adds it to the container
+     *
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @param {AddOptions} [addOptions={}]
+     * @return {Promise<ItemResult>}
+     */
+    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(itemManager.getBaseItem(id));
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
+        const result = await updateContents((items) => {
+            return itemArrayManager.add(id, quantity, items, { ...getOptions(), ...addOptions });
+        });
+
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Adds a specific item with all its data to the container
+     *
+     * A container item cannot be added to itself, or to any container inside of it
+     *
+     * @param {Item} item
+     * @param {AddOptions} [addOptions={}]
+     * @return {Promise<ItemResult>}
+     */
+    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<ItemResult> {
+        if (containsUid(item, uid)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.CONTAINER_RECURSION, { uid: item.uid }));
+        }
+
+        const ruleResult = checkRules(item);
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
+        const result = await updateContents((items) => {
+            return itemArrayManager.addSpecificItem(item, items, { ...getOptions(), ...addOptions });
+        });
+
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Remove a quantity of an item stack by `uid`, use `removeById` to remove by `id` across multiple stacks
+     *
+     * @param {string} itemUid
+     * @param {number} quantity
+     * @return {Promise<ItemResult>}
+     */
+    async function remove(itemUid: string, quantity: number): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.remove(itemUid, quantity, items));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Remove a quantity of items by `id` across multiple stacks
+     *
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @param {ItemRemoveOrder} [order] Which stacks are drained first, uses the configured order if not provided
+     * @return {Promise<ItemResult>}
+     */
+    async function removeById(id: ItemIDs, quantity: number, order?: ItemRemoveOrder): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.removeById(id, quantity, items, order));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Remove a quantity of items from a specific item stack based on `uid`
+     *
+     * @param {string} itemUid
+     * @param {number} quantity
+     * @return {Promise<ItemResult>}
+     */
+    async function removeQuantityFrom(itemUid: string, quantity: number): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.removeQuantityFrom(itemUid, quantity, items));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Stack two items together and leave remaining if stack is too large
+     *
+     * @param {string} uidToStackOn
+     * @param {string} uidToStack
+     * @return {Promise<ItemResult<{ item: Item }>>}
+     */
+    async function stack(uidToStackOn: string, uidToStack: string): Promise<ItemResult<{ item: Item }>> {
+        const result = await updateContents((items) => itemArrayManager.stack(uidToStackOn, uidToStack, items));
+        return itemErrors.track(result.success === false ? result : { success: true, item: result.newItem });
+    }
+
+    /**
+     * Split an item into two items
+     *
+     * @param {string} itemUid
+     * @param {number} amountToSplit
+     * @param {AddOptions} [options={}]
+     * @return {Promise<ItemResult<{ oldItem: Item; newItem: Item }>>}
+     */
+    async function split(
+        itemUid: string,
+        amountToSplit: number,
+        options: AddOptions = {},
+    ): Promise<ItemResult<{ oldItem: Item; newItem: Item }>> {
+        const result = await updateContents((items) => {
+            return itemArrayManager.split(itemUid, amountToSplit, items, { ...getOptions(), ...options });
+        });
+
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        return itemErrors.track({ success: true, oldItem: result.oldItem, newItem: result.newItem });
+    }
+
+    /**
+     * Move an item to a new position in the container grid, and optionally rotate it
+     *
+     * @param {string} itemUid
+     * @param {{ x: number; y: number }} position
+     * @param {number} [rotation]
+     * @return {Promise<ItemResult>}
+     */
+    async function move(itemUid: string, position: { x: number; y: number }, rotation?: number): Promise<ItemResult> {
+        const result = await updateContents((items) => {
+            return itemArrayManager.move(itemUid, position, rotation, items, getOptions());
+        });
+
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Sort the container and place all items in the grid again in the new order
+     *
+     * @param {ItemSortMode} mode
+     * @return {Promise<ItemResult>}
+     */
+    async function sort(mode: ItemSortMode): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.sort(mode, items, getOptions()));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Merge partial stacks of the same item up to their max stack, and place all items in the grid again
+     *
+     * @return {Promise<ItemResult>}
+     */
+    async function compact(): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.compact(items, getOptions()));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Updates the data set for a single item, overwriting any data inside.
+     *
+     * @param {string} itemUid
+     * @param {Partial<Omit<Item, '_id'>>} data
+     * @return {Promise<ItemResult>}
+     */
+    async function update(itemUid: string, data: Partial<Omit<Item, '_id'>>): Promise<ItemResult> {
+        const result = await updateContents((items) => itemArrayManager.update(itemUid, data, items));
+        return itemErrors.track(result.success === false ? result : { success: true });
+    }
+
+    /**
+     * Get all items inside of the container
+     *
+     * @return {Promise<Readonly<Item[]>>}
+     */
+    async function get(): Promise<Readonly<Item[]>> {
+        const item = (await parent.getItems()).find((x) => x.uid === uid);
+        return item ? Utility.clone.arrayData(itemArrayManager.getContents(item)) : [];
+    }
+
+    /**
+     * Gets an item inside of the container based on uid, returns `undefined` if not found
+     *
+     * @param {string} itemUid
+     * @return {Promise<Readonly<Item> | undefined>}
+     */
+    async function getAt(itemUid: string): Promise<Readonly<Item> | undefined> {
+        return itemArrayManager.getByUid(itemUid, await get());
+    }
+
+    /**
+     * Check if the container has enough of an item
+     *
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @return {Promise<boolean>}
+     */
+    async function has(id: ItemIDs, quantity: number): Promise<boolean> {
+        return itemArrayManager.has(id, quantity, [...(await get())]);
+    }
+
+    /**
+     * Find all items inside of the container that match every filter of the query
+     *
+     * @param {ItemQuery} itemQuery
+     * @return {Promise<Readonly<Item>[]>}
+     */
+    async function query(itemQuery: ItemQuery): Promise<Readonly<Item>[]> {
+        return itemArrayManager.query(itemQuery, await get());
+    }
+
+    /**
+     * Get the totals of the container, ie. the quantity of every item and the free grid cells
+     *
+     * @return {Promise<ItemSummary>}
+     */
+    async function getSummary(): Promise<ItemSummary> {
+        return itemArrayManager.getSummary(await get(), getOptions());
+    }
+
+    /**
+     * Returns a generic container for the container item, used to move items between inventories
+     *
+     * @return {ItemContainer}
+     */
+    function getContainer(): ItemContainer {
+        return {
+            type: parent.type,
+            key: `${parent.key}:${uid}`,
+            lockKeys: [...parent.lockKeys, `${parent.key}:${uid}`],
+            compartment: parent.compartment,
+            rules: parent.rules,
+            async getItems() {
+                return [...(await get())];
+            },
+            getOptions,
+            async setItems(items: Item[]) {
+                const result = await updateContents(() => ({ success: true, items }));
+                if (result.success === false) {
+                    throw new Error(result.error.message);
+                }
+            },
+            invokeOnItemAdded() {},
+            invokeOnItemRemoved() {},
+            invokeOnItemsUpdated() {},
+        };
+    }
+
+    return {
+        add,
+        addSpecificItem,
+        compact,
+        get,
+        getAt,
+        getContainer,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        getSummary,
+        has,
+        move,
+        query,
+        remove,
+        removeById,
+        removeQuantityFrom,
+        sort,
+        split,
+        stack,
+        update,
+    };
+}
@@ -9,6 +9,7 @@ export function useItemManagerDatabase() {
     async function init() {
         await db.createCollection(ItemManagerConfig.collectionName);
         await db.createCollection(ItemManagerConfig.collectionNameForStorage);
+        await db.createCollection(ItemManagerConfig.collectionNameForDroppedItems);
         isReady = true;
     }
 
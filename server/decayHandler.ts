@@ -1,10 +1,11 @@
 import * as alt from 'alt-server';
 import { useRebar } from '@Server/index.js';
-import { Storage } from '../shared/types.js';
+import { Storage, VehicleInventoryExtension } from '../shared/types.js';
 import { ItemManagerConfig } from '../shared/config.js';
 import { useStorageItemManager } from './storageItemManager.js';
 import { useVehicleItemManager } from './vehicleItemManager.js';
 import { usePlayerItemManager } from './playerItemManager.js';
+import { useDroppedItemManager } from './droppedItemManager.js';
 
 const Rebar = useRebar();
 const RebarEvents = Rebar.events.useEvents();
@@ -40,6 +41,25 @@ async function updateStorage() {
     await Promise.all(promises);
 }
 
+/**
+ * Decays every compartment of a vehicle, one after another as they share a single document field
+ *
+ * @param {alt.Vehicle} vehicle
+ */
+async function decayVehicle(vehicle: alt.Vehicle) {
+    // The default compartment goes first, it also moves old items into the compartment
+    await useVehicleItemManager(vehicle).invokeDecay();
+
+    const compartments = Rebar.document.vehicle.useVehicle(vehicle).get<VehicleInventoryExtension>().compartments;
+    for (let compartment of Object.keys(compartments ?? {})) {
+        if (compartment === ItemManagerConfig.vehicles.defaultCompartment) {
+            continue;
+        }
+
+        await useVehicleItemManager(vehicle, compartment).invokeDecay();
+    }
+}
+
 async function updateVehicles() {
     const promises: Promise<any>[] = [];
 
@@ -48,8 +68,7 @@ async function updateVehicles() {
             continue;
         }
 
-        const vehicleManager = useVehicleItemManager(vehicle);
-        promises.push(vehicleManager.invokeDecay());
+        promises.push(decayVehicle(vehicle));
     }
 
     await Promise.all(promises);
@@ -70,6 +89,12 @@ async function updatePlayers() {
     await Promise.all(promises);
 }
 
+async function updateDroppedItems() {
+    try {
+        await useDroppedItemManager().invokeDecay();
+    } catch (err) {}
+}
+
 async function handleDecay() {
     if (isUpdating) {
         return;
@@ -82,6 +107,7 @@ async function handleDecay() {
     promises.push(updatePlayers());
     promises.push(updateVehicles());
     promises.push(updateStorage());
+    promises.push(updateDroppedItems());
 
     await Promise.all(promises);
 
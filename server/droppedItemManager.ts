@@ -0,0 +1,229 @@
+import * as alt from 'alt-server';
+import { useRebar } from '@Server/index.js';
+
+import { DroppedItem, ItemErrorCode, ItemResult } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+import { useItemManagerDatabase } from './database.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { usePlayerItemManager } from './playerItemManager.js';
+import { useDroppedItemManagerEventInvoker } from './droppedItemManagerEvents.js';
+import { useItemErrors } from './itemErrors.js';
+
+const Rebar = useRebar();
+const db = Rebar.database.useDatabase();
+const invoker = useDroppedItemManagerEventInvoker();
+const managerDb = useItemManagerDatabase();
+
+// Dropped items that are currently being picked up, prevents two players picking up the same item
+const pendingPickups: Set<string> = new Set();
+
+export function useDroppedItemManager() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    /**
+     * Drop an item, or part of a stack, from a player's inventory onto the ground at the player's position
+     *
+     * Items with `rules.noDropping` are destroyed instead, and are not stored
+     *
+     * If the dropped item cannot be stored, it is returned to the player. Fails with `DROP_RESTORE_FAILED`,
+     * and the item in the error details, if the player no longer has space for it.
+     *
+     * @param {alt.Player} player
+     * @param {string} uid
+     * @param {number} [quantity] Drops the whole stack if not provided
+     * @return {Promise<ItemResult<{ droppedItem: DroppedItem | null; destroyed: boolean }>>}
+     */
+    async function drop(
+        player: alt.Player,
+        uid: string,
+        quantity?: number,
+    ): Promise<ItemResult<{ droppedItem: DroppedItem | null; destroyed: boolean }>> {
+        await alt.Utils.waitFor(() => managerDb.isReady(), 30000);
+
+        const playerManager = usePlayerItemManager(player);
+        const result = await playerManager.drop(uid, quantity);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        if (result.destroyed) {
+            return itemErrors.track({ success: true, droppedItem: null, destroyed: true });
+        }
+
+        const document: Omit<DroppedItem, '_id'> = {
+            item: result.item,
+            pos: { x: player.pos.x, y: player.pos.y, z: player.pos.z },
+            dimension: player.dimension,
+            droppedAt: Date.now(),
+        };
+
+        const _id = await db.create<Omit<DroppedItem, '_id'>>(document, ItemManagerConfig.collectionNameForDroppedItems);
+        if (!_id) {
+            const restoreResult = await playerManager.addSpecificItem(result.item);
+            if (restoreResult.success === false) {
+                alt.logWarning(`[Dropped Items] Failed to return ${result.item.id} (${uid}) after a failed drop`);
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.DROP_RESTORE_FAILED, { uid, item: result.item }));
+            }
+
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { uid }));
+        }
+
+        const droppedItem: DroppedItem = { _id, ...document };
+        invoker.invokeOnItemDropped(player, droppedItem);
+
+        return itemErrors.track({ success: true, droppedItem, destroyed: false });
+    }
+
+    /**
+     * Puts a dropped item back on the ground after it could not be picked up
+     *
+     * @param {alt.Player} player
+     * @param {DroppedItem} droppedItem
+     * @return {Promise<void>}
+     */
+    async function restore(player: alt.Player, droppedItem: DroppedItem): Promise<void> {
+        const { _id, ...document } = droppedItem;
+        const newId = await db.create<Omit<DroppedItem, '_id'>>(
+            document,
+            ItemManagerConfig.collectionNameForDroppedItems,
+        );
+        invoker.invokeOnItemDespawned(droppedItem);
+
+        if (!newId) {
+            alt.logWarning(`[Dropped Items] Failed to restore ${_id}, ${droppedItem.item.id} was lost`);
+            return;
+        }
+
+        invoker.invokeOnItemDropped(player, { _id: newId, ...document });
+    }
+
+    /**
+     * Pick up a dropped item, and add the exact item back into the player's inventory
+     *
+     * The item is taken off the ground before it is added, so it can only be picked up once
+     *
+     * If the player does not have enough space, the item is put back on the ground with a new `_id`.
+     * `onItemDespawned` is invoked for the old and `onItemDropped` for the new dropped item.
+     *
+     * @param {alt.Player} player
+     * @param {string} _id
+     * @return {Promise<ItemResult>}
+     */
+    async function pickup(player: alt.Player, _id: string): Promise<ItemResult> {
+        if (pendingPickups.has(_id)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.PICKUP_IN_PROGRESS, { _id }));
+        }
+
+        pendingPickups.add(_id);
+
+        try {
+            const droppedItem = await get(_id);
+            if (!droppedItem) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { _id }));
+            }
+
+            const didDelete = await db.deleteDocument(_id, ItemManagerConfig.collectionNameForDroppedItems);
+            if (!didDelete) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { _id }));
+            }
+
+            const result = await usePlayerItemManager(player).addSpecificItem(droppedItem.item);
+            if (result.success === false) {
+                await restore(player, droppedItem);
+                return itemErrors.track(result);
+            }
+
+            invoker.invokeOnItemPickedUp(player, droppedItem);
+            return itemErrors.track({ success: true });
+        } finally {
+            pendingPickups.delete(_id);
+        }
+    }
+
+    /**
+     * Get a dropped item by its database id
+     *
+     * @param {string} _id
+     * @return {Promise<DroppedItem | undefined>}
+     */
+    async function get(_id: string): Promise<DroppedItem | undefined> {
+        const document = await db.get<DroppedItem>({ _id }, ItemManagerConfig.collectionNameForDroppedItems);
+        return document ? document : undefined;
+    }
+
+    /**
+     * Get all dropped items
+     *
+     * @return {Promise<DroppedItem[]>}
+     */
+    async function getAll(): Promise<DroppedItem[]> {
+        const documents = await db.getAll<DroppedItem>(ItemManagerConfig.collectionNameForDroppedItems);
+        return documents ?? [];
+    }
+
+    /**
+     * Get all dropped items within a range of a position in a dimension
+     *
+     * @param {alt.IVector3} pos
+     * @param {number} dimension
+     * @param {number} range
+     * @return {Promise<DroppedItem[]>}
+     */
+    async function getInRange(pos: alt.IVector3, dimension: number, range: number): Promise<DroppedItem[]> {
+        const documents = await getAll();
+        return documents.filter((document) => {
+            if (document.dimension !== dimension) {
+                return false;
+            }
+
+            const dx = document.pos.x - pos.x;
+            const dy = document.pos.y - pos.y;
+            const dz = document.pos.z - pos.z;
+            return Math.sqrt(dx * dx + dy * dy + dz * dz) <= range;
+        });
+    }
+
+    /**
+     * Decays all dropped items by 1, and removes decayed items and items past the despawn time
+     *
+     * @return {Promise<void>}
+     */
+    async function invokeDecay(): Promise<void> {
+        const documents = await getAll();
+        const despawnTime = ItemManagerConfig.droppedItems.despawnTime;
+
+        for (let document of documents) {
+            if (pendingPickups.has(document._id)) {
+                continue;
+            }
+
+            const isExpired = despawnTime > 0 && document.droppedAt + despawnTime <= Date.now();
+            const items = isExpired ? [] : itemArrayManager.invokeDecay([document.item]);
+
+            if (items.length <= 0) {
+                await db.deleteDocument(document._id, ItemManagerConfig.collectionNameForDroppedItems);
+                invoker.invokeOnItemDespawned(document);
+                continue;
+            }
+
+            if (items[0].decay !== document.item.decay) {
+                await db.update<Partial<DroppedItem>>(
+                    { _id: document._id, item: items[0] },
+                    ItemManagerConfig.collectionNameForDroppedItems,
+                );
+            }
+        }
+    }
+
+    return {
+        drop,
+        get,
+        getAll,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        getInRange,
+        invokeDecay,
+        pickup,
+    };
+}
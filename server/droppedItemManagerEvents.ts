@@ -0,0 +1,77 @@
+import * as alt from 'alt-server';
+import { DroppedItem } from '../shared/types.js';
+
+type ItemDroppedCallback = (player: alt.Player, droppedItem: DroppedItem) => void;
+type ItemPickedUpCallback = (player: alt.Player, droppedItem: DroppedItem) => void;
+type ItemDespawnedCallback = (droppedItem: DroppedItem) => void;
+
+const onItemDroppedCallbacks: ItemDroppedCallback[] = [];
+const onItemPickedUpCallbacks: ItemPickedUpCallback[] = [];
+const onItemDespawnedCallbacks: ItemDespawnedCallback[] = [];
+
+export function useDroppedItemManagerEventInvoker() {
+    function invokeOnItemDropped(player: alt.Player, droppedItem: DroppedItem) {
+        for (let cb of onItemDroppedCallbacks) {
+            cb(player, droppedItem);
+        }
+    }
+
+    function invokeOnItemPickedUp(player: alt.Player, droppedItem: DroppedItem) {
+        for (let cb of onItemPickedUpCallbacks) {
+            cb(player, droppedItem);
+        }
+    }
+
+    function invokeOnItemDespawned(droppedItem: DroppedItem) {
+        for (let cb of onItemDespawnedCallbacks) {
+            cb(droppedItem);
+        }
+    }
+
+    return {
+        invokeOnItemDespawned,
+        invokeOnItemDropped,
+        invokeOnItemPickedUp,
+    };
+}
+
+export function useDroppedItemManagerEvents() {
+    /**
+     * Invokes a callback when a player drops an item on the ground
+     *
+     * Use this to create the world entity for the item
+     *
+     * @param {ItemDroppedCallback} cb
+     */
+    function onItemDropped(cb: ItemDroppedCallback) {
+        onItemDroppedCallbacks.push(cb);
+    }
+
+    /**
+     * Invokes a callback when a player picks up an item from the ground
+     *
+     * Use this to remove the world entity for the item
+     *
+     * @param {ItemPickedUpCallback} cb
+     */
+    function onItemPickedUp(cb: ItemPickedUpCallback) {
+        onItemPickedUpCallbacks.push(cb);
+    }
+
+    /**
+     * Invokes a callback when a dropped item decays, or despawns after the configured despawn time
+     *
+     * Use this to remove the world entity for the item
+     *
+     * @param {ItemDespawnedCallback} cb
+     */
+    function onItemDespawned(cb: ItemDespawnedCallback) {
+        onItemDespawnedCallbacks.push(cb);
+    }
+
+    return {
+        onItemDespawned,
+        onItemDropped,
+        onItemPickedUp,
+    };
+}
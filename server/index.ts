@@ -2,12 +2,32 @@ import { useRebar } from '@Server/index.js';
 
 import './decayHandler.js';
 import { useItemManager } from './itemManager.js';
+import { useItemValidator } from './itemValidator.js';
+import { useItemDefinitionLoader } from './itemDefinitionLoader.js';
+import { useItemLocaleManager } from './itemLocaleManager.js';
+import { useContainerItemManager } from './containerItemManager.js';
+import { useItemCraftingManager } from './itemCraftingManager.js';
+import { useDroppedItemManager } from './droppedItemManager.js';
+import { useDroppedItemManagerEvents } from './droppedItemManagerEvents.js';
 import { useItemManagerDatabase } from './database.js';
 import { useItemUsageManager } from './itemUsageManager.js';
 import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemCapacityManager } from './itemCapacityManager.js';
+import { useItemLockManager } from './itemLockManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { useItemSessionManager } from './itemSessionManager.js';
+import { useItemSyncManager } from './itemSyncManager.js';
+import { useItemTradeManager } from './itemTradeManager.js';
+import { useItemTransaction } from './itemTransaction.js';
+import { useItemTransferManager } from './itemTransferManager.js';
+import { useLootTableManager } from './lootTableManager.js';
+import { usePlayerEquipmentManager } from './playerEquipmentManager.js';
 import { usePlayerItemManager } from './playerItemManager.js';
 import { useVehicleItemManager } from './vehicleItemManager.js';
+import { useVehicleCapacityManager } from './vehicleCapacityManager.js';
 import { useStorageItemManager } from './storageItemManager.js';
+import { useItemTradeManagerEvents } from './itemTradeManagerEvents.js';
+import { usePlayerEquipmentManagerEvents } from './playerEquipmentManagerEvents.js';
 import { usePlayerItemManagerEvents } from './playerItemManagerEvents.js';
 import { useVehicleItemManagerEvents } from './vehicleItemManagerEvents.js';
 import { useStorageItemManagerEvents } from './storageItemManagerEvents.js';
@@ -20,13 +40,33 @@ const db = useItemManagerDatabase();
 
 function useApi() {
     return {
+        useContainerItemManager,
+        useDroppedItemManager,
+        useDroppedItemManagerEvents,
         useItemArrayManager,
+        useItemCapacityManager,
+        useItemCraftingManager,
+        useItemDefinitionLoader,
+        useItemLocaleManager,
+        useItemLockManager,
         useItemManager,
+        useItemRuleManager,
+        useItemSessionManager,
+        useItemSyncManager,
+        useItemTradeManager,
+        useItemTradeManagerEvents,
+        useItemTransaction,
+        useItemTransferManager,
         useItemUsageManager,
+        useItemValidator,
+        useLootTableManager,
+        usePlayerEquipmentManager,
+        usePlayerEquipmentManagerEvents,
         usePlayerItemManager,
         usePlayerItemManagerEvents,
         useStorageItemManager,
         useStorageItemManagerEvents,
+        useVehicleCapacityManager,
         useVehicleItemManager,
         useVehicleItemManagerEvents,
         convertToId(name: string) {
@@ -1,10 +1,46 @@
 import * as Utility from '@Shared/utility/index.js';
 import { useItemManager } from './itemManager.js';
 import { ItemIDs } from '../shared/ignoreItemIds.js';
-import { AddOptions, Item } from '../shared/types.js';
+import {
+    AddOptions,
+    BaseItem,
+    Item,
+    ItemError,
+    ItemErrorCode,
+    ItemFilter,
+    ItemQuery,
+    ItemRemoveOrder,
+    ItemResult,
+    ItemSortMode,
+    ItemSummary,
+} from '../shared/types.js';
 import { ItemManagerConfig } from '../shared/config.js';
+import { useItemGridManager } from './itemGridManager.js';
+import { useItemErrors } from './itemErrors.js';
 
 const itemManager = useItemManager();
+const gridManager = useItemGridManager();
+const itemErrors = useItemErrors();
+
+/**
+ * Returns the items stored inside of a container item, returns an empty array for any other item
+ *
+ * @param {Readonly<Item>} item
+ * @return {Item[]}
+ */
+function getContents(item: Readonly<Item>): Item[] {
+    return Array.isArray(item.data?.items) ? item.data.items : [];
+}
+
+/**
+ * Returns the total weight of all items, including the contents of container items
+ *
+ * @param {Readonly<Item[]>} items
+ * @return {number}
+ */
+function getTotalWeight(items: Readonly<Item[]>): number {
+    return items.reduce((sum, item) => sum + item.quantity * item.weight + getTotalWeight(getContents(item)), 0);
+}
 
 /**
  * Check if the total weight of all items exceeds a maximum weight
@@ -14,35 +50,251 @@ const itemManager = useItemManager();
  * @return {boolean}
  */
 function isWeightExceeded(items: Item[], maxWeight: number = ItemManagerConfig.weight.maxWeight): boolean {
-    const totalWeight = items.reduce((sum, item) => sum + item.quantity * item.weight, 0);
-    return totalWeight > maxWeight;
+    return getTotalWeight(items) > maxWeight;
 }
 
 /**
  * Verify if max slots and max weight are not exceeded if enabled
  *
+ * When slots are enabled every item must be inside of the grid, and items may not overlap
+ *
  * @param {Item[]} items
  * @param {AddOptions} options
- * @return {boolean}
+ * @return {(ItemError | undefined)} The reason the items are invalid, or `undefined` if they are valid
  */
-function verifyStackAndWeight(items: Item[], options: AddOptions = {}): boolean {
+function verifyStackAndWeight(items: Item[], options: AddOptions = {}): ItemError | undefined {
     const maxCells = options.maxCells || ItemManagerConfig.slots.maxCells;
-    const maxWeight = options.maxWeight || ItemManagerConfig.weight.maxWeight;
+    const maxWeight = options.maxWeight ?? ItemManagerConfig.weight.maxWeight;
 
-    const totalCellsOccupied = items.reduce((sum, item) => sum + item.width * item.height, 0);
     const totalAvailableCells = maxCells.width * maxCells.height;
+    if (totalAvailableCells <= 0) {
+        return itemErrors.create(ItemErrorCode.SLOTS_EXCEEDED);
+    }
 
-    if ((ItemManagerConfig.slots.enabled && totalCellsOccupied > totalAvailableCells) || totalAvailableCells <= 0) {
-        return false;
+    if (ItemManagerConfig.slots.enabled && !gridManager.validate(items, maxCells)) {
+        return itemErrors.create(ItemErrorCode.SLOTS_EXCEEDED);
     }
 
     if (ItemManagerConfig.weight.enabled && isWeightExceeded(items, maxWeight)) {
+        return itemErrors.create(ItemErrorCode.WEIGHT_EXCEEDED, { maxWeight });
+    }
+
+    return undefined;
+}
+
+/**
+ * Assigns a grid position to an item that is about to be added to the items
+ *
+ * Items without a position, such as items stored before positions were tracked, are placed first.
+ * If the item already has a free position it is kept, otherwise the first free spot is used.
+ *
+ * Does nothing if slots are disabled
+ *
+ * @param {Item} item
+ * @param {Item[]} items
+ * @param {AddOptions} options
+ * @return {boolean}
+ */
+function placeItem(item: Item, items: Item[], options: AddOptions = {}): boolean {
+    if (!ItemManagerConfig.slots.enabled) {
+        return true;
+    }
+
+    const maxCells = options.maxCells || ItemManagerConfig.slots.maxCells;
+    if (!gridManager.placeUnpositioned(items, maxCells)) {
+        return false;
+    }
+
+    if (item.position && gridManager.canPlace(item, item.position, items, maxCells)) {
+        return true;
+    }
+
+    return gridManager.place(item, items, maxCells);
+}
+
+/**
+ * Returns the stacks in the order they should be drained when removing items
+ *
+ * Stacks without a `durability` or `decay` value are drained last, equal stacks are drained newest first
+ *
+ * @param {Item[]} stacks
+ * @param {ItemRemoveOrder} order
+ * @return {Item[]}
+ */
+function sortForRemoval(stacks: Item[], order: ItemRemoveOrder): Item[] {
+    const newestFirst = [...stacks].reverse();
+    if (order === 'oldest') {
+        return stacks;
+    }
+
+    if (order === 'durability' || order === 'decay') {
+        const getValue = (item: Item): number => {
+            const value = item[order];
+            return typeof value === 'number' ? value : Number.MAX_SAFE_INTEGER;
+        };
+
+        return newestFirst.sort((a, b) => getValue(a) - getValue(b));
+    }
+
+    return newestFirst;
+}
+
+/**
+ * Returns the base item of an item so definition changes apply, or the item itself if the base item is gone
+ *
+ * @param {Readonly<BaseItem>} item
+ * @return {Readonly<BaseItem>}
+ */
+function getDefinition(item: Readonly<BaseItem>): Readonly<BaseItem> {
+    return itemManager.getBaseItem(item.id as ItemIDs) ?? item;
+}
+
+/**
+ * Check if an item has any of the categories or tags of a filter
+ *
+ * @param {Readonly<BaseItem>} item
+ * @param {ItemFilter} filter
+ * @return {boolean}
+ */
+function matchesFilter(item: Readonly<BaseItem>, filter: ItemFilter): boolean {
+    const definition = getDefinition(item);
+    if (definition.category && (filter.categories ?? []).includes(definition.category)) {
+        return true;
+    }
+
+    return (definition.tags ?? []).some((tag) => (filter.tags ?? []).includes(tag));
+}
+
+/**
+ * Check if the allow and deny lists of the options accept an item, and every item stored inside of it
+ *
+ * An allow list without any categories or tags accepts every item
+ *
+ * @param {Readonly<BaseItem>} item
+ * @param {AddOptions} options
+ * @return {boolean}
+ */
+function isAllowed(item: Readonly<BaseItem>, options: AddOptions): boolean {
+    if (options.deny && matchesFilter(item, options.deny)) {
+        return false;
+    }
+
+    const allow = options.allow;
+    const hasAllowList = allow && ((allow.categories ?? []).length >= 1 || (allow.tags ?? []).length >= 1);
+    if (hasAllowList && !matchesFilter(item, allow)) {
+        return false;
+    }
+
+    return getContents(item as Item).every((content) => isAllowed(content, options));
+}
+
+/**
+ * Check if an item matches every filter of a query
+ *
+ * @param {Readonly<Item>} item
+ * @param {ItemQuery} query
+ * @return {boolean}
+ */
+function matchesQuery(item: Readonly<Item>, query: ItemQuery): boolean {
+    if (typeof query.id !== 'undefined') {
+        const ids: string[] = Array.isArray(query.id) ? query.id : [query.id];
+        if (!ids.includes(item.id)) {
+            return false;
+        }
+    }
+
+    if (typeof query.category !== 'undefined') {
+        const categories = Array.isArray(query.category) ? query.category : [query.category];
+        if (!matchesFilter(item, { categories })) {
+            return false;
+        }
+    }
+
+    if (query.tags && !matchesFilter(item, { tags: query.tags })) {
+        return false;
+    }
+
+    if (query.data && !query.data(item.data ?? {})) {
         return false;
     }
 
+    if (query.durability) {
+        if (typeof item.durability !== 'number') {
+            return false;
+        }
+
+        const min = query.durability.min ?? Number.NEGATIVE_INFINITY;
+        const max = query.durability.max ?? Number.POSITIVE_INFINITY;
+        if (item.durability < min || item.durability > max) {
+            return false;
+        }
+    }
+
+    if (typeof query.decayWithin === 'number') {
+        if (typeof item.decay !== 'number' || item.decay > query.decayWithin) {
+            return false;
+        }
+    }
+
+    for (let rule of Object.keys(query.rules ?? {})) {
+        if ((item.rules?.[rule] ?? false) !== query.rules[rule]) {
+            return false;
+        }
+    }
+
     return true;
 }
 
+/**
+ * Returns a compare function that orders items for a sort mode, items that are equal keep their order
+ *
+ * Names and categories are read from the base item first, so definition changes apply
+ *
+ * @param {ItemSortMode} mode
+ * @return {(a: Item, b: Item) => number}
+ */
+function getSortCompare(mode: ItemSortMode): (a: Item, b: Item) => number {
+    const byName = (a: Item, b: Item) => getDefinition(a).name.localeCompare(getDefinition(b).name);
+
+    switch (mode) {
+        case 'weight':
+            return (a, b) => b.weight - a.weight || byName(a, b);
+        case 'id':
+            return (a, b) => a.id.localeCompare(b.id);
+        case 'category':
+            return (a, b) => {
+                const categoryA = getDefinition(a).category;
+                const categoryB = getDefinition(b).category;
+                if (categoryA === categoryB) {
+                    return byName(a, b);
+                }
+
+                if (!categoryA || !categoryB) {
+                    return categoryA ? -1 : 1;
+                }
+
+                return categoryA.localeCompare(categoryB);
+            };
+        default:
+            return byName;
+    }
+}
+
+/**
+ * Check if two stacks can be merged, they must share the same id, data, durability, and decay
+ *
+ * @param {Readonly<Item>} a
+ * @param {Readonly<Item>} b
+ * @return {boolean}
+ */
+function canMerge(a: Readonly<Item>, b: Readonly<Item>): boolean {
+    if (a.id !== b.id || a.durability !== b.durability || a.decay !== b.decay) {
+        return false;
+    }
+
+    return JSON.stringify(a.data ?? {}) === JSON.stringify(b.data ?? {});
+}
+
 /**
  * Clones the array of items to break any bindings
  *
@@ -54,22 +306,12 @@ function cloneItems(items: Item[]): Item[] {
 }
 
 export function useItemArrayManager() {
-    let errorMessage = '';
-
-    function getErrorMessage(): string {
-        return errorMessage;
-    }
-
-    function setErrorMessage(message: string): void {
-        errorMessage = message;
-    }
-
     function handleItemStacking(
         items: Item[],
         baseItem: Item,
         quantity: number,
         options: AddOptions,
-    ): Item[] | undefined {
+    ): ItemResult<{ items: Item[] }> {
         if (baseItem.maxStack <= 1) {
             return addNewItemStacks(items, baseItem, quantity, options);
         }
@@ -90,7 +332,13 @@ export function useItemArrayManager() {
             quantity -= quantityToAdd;
         }
 
-        return quantity > 0 ? addNewItemStacks(items, baseItem, quantity, options) : items;
+        if (quantity > 0) {
+            return addNewItemStacks(items, baseItem, quantity, options);
+        }
+
+        // Filling existing stacks still adds weight
+        const error = verifyStackAndWeight(items, options);
+        return error ? { success: false, error } : { success: true, items };
     }
 
     function addNewItemStacks(
@@ -98,7 +346,7 @@ export function useItemArrayManager() {
         baseItem: Item,
         quantity: number,
         options: AddOptions,
-    ): Item[] | undefined {
+    ): ItemResult<{ items: Item[] }> {
         while (quantity > 0) {
             const uid = Utility.uid.generate();
             const actualQuantity = Math.min(quantity, baseItem.maxStack);
@@ -108,19 +356,35 @@ export function useItemArrayManager() {
                 newItem.data = options.data;
             }
 
+            if (!placeItem(newItem, items, options)) {
+                return itemErrors.fail(ItemErrorCode.SLOTS_EXCEEDED);
+            }
+
             items.push(newItem);
             quantity -= actualQuantity;
         }
 
-        return verifyStackAndWeight(items, options) ? items : undefined;
+        const error = verifyStackAndWeight(items, options);
+        return error ? { success: false, error } : { success: true, items };
     }
 
-    function add(id: ItemIDs, quantity: number, items: Item[], options: AddOptions = {}): Item[] | undefined {
-        errorMessage = '';
+    function add(
+        id: ItemIDs,
+        quantity: number,
+        items: Item[],
+        options: AddOptions = {},
+    ): ItemResult<{ items: Item[] }> {
+        if (!(quantity > 0)) {
+            return itemErrors.fail(ItemErrorCode.INVALID_QUANTITY, { quantity });
+        }
+
         const baseItem = itemManager.getBaseItem(id);
         if (!baseItem) {
-            setErrorMessage('Base item does not exist');
-            return undefined;
+            return itemErrors.fail(ItemErrorCode.BASE_ITEM_NOT_FOUND, { id });
+        }
+
+        if (!isAllowed(baseItem, options)) {
+            return itemErrors.fail(ItemErrorCode.CATEGORY_RESTRICTED, { id });
         }
 
         items = cloneItems(items);
@@ -132,20 +396,26 @@ export function useItemArrayManager() {
         return handleItemStacking(items, baseItem as Item, quantity, options);
     }
 
-    function addSpecificItem(item: Item, items: Item[], options: AddOptions = {}): Item[] | undefined {
-        errorMessage = '';
+    function addSpecificItem(item: Item, items: Item[], options: AddOptions = {}): ItemResult<{ items: Item[] }> {
+        if (!isAllowed(item, options)) {
+            return itemErrors.fail(ItemErrorCode.CATEGORY_RESTRICTED, { id: item.id });
+        }
+
         items = cloneItems(items);
 
-        items.push({ ...item });
-        return verifyStackAndWeight(items, options) ? items : undefined;
+        const newItem = { ...item };
+        if (!placeItem(newItem, items, options)) {
+            return itemErrors.fail(ItemErrorCode.SLOTS_EXCEEDED, { uid: item.uid });
+        }
+
+        items.push(newItem);
+
+        const error = verifyStackAndWeight(items, options);
+        return error ? { success: false, error } : { success: true, items };
     }
 
     function getByUid(uid: string, items: Readonly<Item[]>): Readonly<Item> | undefined {
-        errorMessage = '';
         const item = items.find((x) => x.uid === uid);
-        if (!item) {
-            setErrorMessage('Unable to get item by uid, item does not exist');
-        }
         return item ? (item as Readonly<Item>) : undefined;
     }
 
@@ -154,12 +424,22 @@ export function useItemArrayManager() {
         return item ? (item.data as Readonly<T>) : undefined;
     }
 
-    function remove(uid: string, quantity: number, items: Item[]): Item[] | undefined {
-        errorMessage = '';
+    function remove(uid: string, quantity: number, items: Item[]): ItemResult<{ items: Item[] }> {
+        if (!(quantity > 0)) {
+            return itemErrors.fail(ItemErrorCode.INVALID_QUANTITY, { quantity });
+        }
+
         const itemIndex = items.findIndex((item) => item.uid === uid);
+        if (itemIndex === -1) {
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
+        }
 
-        if (itemIndex === -1 || items[itemIndex].quantity < quantity) {
-            return undefined;
+        if (items[itemIndex].quantity < quantity) {
+            return itemErrors.fail(ItemErrorCode.INSUFFICIENT_QUANTITY, {
+                uid,
+                quantity,
+                available: items[itemIndex].quantity,
+            });
         }
 
         items = cloneItems(items);
@@ -170,47 +450,60 @@ export function useItemArrayManager() {
             items[itemIndex].quantity -= quantity;
         }
 
-        return items;
+        return { success: true, items };
     }
 
-    function removeAt(uid: string, items: Item[]): { items: Item[]; item: Item[] } | undefined {
-        errorMessage = '';
+    function removeAt(uid: string, items: Item[]): ItemResult<{ items: Item[]; item: Item[] }> {
         items = cloneItems(items);
         const index = items.findIndex((x) => x.uid === uid);
         if (index <= -1) {
-            setErrorMessage('Could not find item to remove');
-            return undefined;
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
         }
 
         const item = items.splice(index, 1);
-        return { items, item };
+        return { success: true, items, item };
     }
 
-    function removeQuantityFrom(uid: string, quantity: number, items: Item[]): Item[] | undefined {
-        errorMessage = '';
-        items = cloneItems(items);
-        const index = items.findIndex((x) => x.uid === uid);
-        if (index <= -1) {
-            setErrorMessage('Could not find item to remove');
-            return undefined;
+    function removeQuantityFrom(uid: string, quantity: number, items: Item[]): ItemResult<{ items: Item[] }> {
+        return remove(uid, quantity, items);
+    }
+
+    function removeById(
+        id: ItemIDs,
+        quantity: number,
+        items: Item[],
+        order: ItemRemoveOrder = ItemManagerConfig.remove.order,
+    ): ItemResult<{ items: Item[] }> {
+        if (!(quantity > 0)) {
+            return itemErrors.fail(ItemErrorCode.INVALID_QUANTITY, { quantity });
         }
 
-        if (items[index].quantity < quantity) {
-            setErrorMessage('Quantity provided does not match available item quantity');
-            return undefined;
+        const available = items.reduce((sum, item) => (item.id === id ? sum + item.quantity : sum), 0);
+        if (available < quantity) {
+            return itemErrors.fail(ItemErrorCode.INSUFFICIENT_QUANTITY, { id, quantity, available });
         }
 
-        if (items[index].quantity === quantity) {
-            items.splice(index, 1);
-            return items;
+        items = cloneItems(items);
+
+        let remaining = quantity;
+        for (let stack of sortForRemoval(items.filter((x) => x.id === id), order)) {
+            if (remaining <= 0) {
+                break;
+            }
+
+            const amountToRemove = Math.min(stack.quantity, remaining);
+            stack.quantity -= amountToRemove;
+            remaining -= amountToRemove;
+
+            if (stack.quantity <= 0) {
+                items.splice(items.indexOf(stack), 1);
+            }
         }
 
-        items[index].quantity -= quantity;
-        return items;
+        return { success: true, items };
     }
 
     function has(id: ItemIDs, quantity: number, items: Item[]): boolean {
-        errorMessage = '';
         const totalQuantityFound = items.reduce((sum, item) => {
             if (item.id === id) {
                 sum += item.quantity;
@@ -218,12 +511,7 @@ export function useItemArrayManager() {
             return sum;
         }, 0);
 
-        if (totalQuantityFound >= quantity) {
-            return true;
-        }
-
-        setErrorMessage('Not enough quantity of item');
-        return false;
+        return totalQuantityFound >= quantity;
     }
 
     function split(
@@ -231,116 +519,84 @@ export function useItemArrayManager() {
         amountToSplit: number,
         items: Item[],
         options: Omit<AddOptions, 'data'>,
-    ): { success: boolean; oldItem: Item; newItem: Item; items: Item[] } {
-        errorMessage = '';
+    ): ItemResult<{ oldItem: Item; newItem: Item; items: Item[] }> {
         items = cloneItems(items);
         const index = items.findIndex((x) => x.uid === uid);
         if (index <= -1) {
-            setErrorMessage('Could not find given item in inventory during split');
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-                items: null,
-            };
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
         }
 
         const baseItem = itemManager.getBaseItem(items[index].id as ItemIDs);
         if (!baseItem) {
-            setErrorMessage('Base item does not exist');
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-                items: null,
-            };
+            return itemErrors.fail(ItemErrorCode.BASE_ITEM_NOT_FOUND, { id: items[index].id });
         }
 
-        if (items[index].quantity < amountToSplit || items[index].quantity === amountToSplit) {
-            setErrorMessage('Item cannot be split');
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-                items: null,
-            };
+        // Both stacks would hold a copy of the same contents
+        if (getContents(items[index]).length >= 1) {
+            return itemErrors.fail(ItemErrorCode.CANNOT_SPLIT, { uid });
+        }
+
+        if (!(amountToSplit > 0) || items[index].quantity <= amountToSplit) {
+            return itemErrors.fail(ItemErrorCode.CANNOT_SPLIT, {
+                uid,
+                quantity: amountToSplit,
+                available: items[index].quantity,
+            });
         }
 
         items[index].quantity -= amountToSplit;
         const clonedItem: Item = Utility.clone.objectData(items[index]);
 
         const newItem = { ...clonedItem, quantity: amountToSplit, uid: Utility.uid.generate() };
+        delete newItem.position;
+
+        if (!placeItem(newItem, items, options)) {
+            return itemErrors.fail(ItemErrorCode.SLOTS_EXCEEDED, { uid });
+        }
+
         items.push(newItem);
 
-        return verifyStackAndWeight(items, options)
-            ? {
-                  success: true,
-                  oldItem: items[index],
-                  newItem: newItem,
-                  items: items,
-              }
-            : undefined;
+        const error = verifyStackAndWeight(items, options);
+        if (error) {
+            return { success: false, error };
+        }
+
+        return { success: true, oldItem: items[index], newItem, items };
     }
 
     function stack(
         uidToStackOn: string,
         uidToStack: string,
         items: Item[],
-    ): { success: boolean; newItem: Item | null; items: Item[]; errorMessage?: string } {
-        let errorMessage = '';
+    ): ItemResult<{ newItem: Item; items: Item[] }> {
         items = cloneItems(items);
         let stackableIndex = items.findIndex((x) => x.uid === uidToStackOn);
         const stackIndex = items.findIndex((x) => x.uid === uidToStack);
 
         if (stackIndex === -1 || stackableIndex === -1) {
-            errorMessage = 'Could not find both items in inventory';
-            return {
-                success: false,
-                newItem: null,
-                items: items,
-            };
+            const uid = stackIndex === -1 ? uidToStack : uidToStackOn;
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
         }
 
         if (items[stackableIndex].id !== items[stackIndex].id) {
-            errorMessage = 'Both items were not the same, and cannot be stacked';
-            return {
-                success: false,
-                newItem: null,
-                items: items,
-                errorMessage,
-            };
+            return itemErrors.fail(ItemErrorCode.NOT_SAME_ITEM);
         }
 
         const baseItem = itemManager.getBaseItem(items[stackIndex].id as ItemIDs);
         if (!baseItem || baseItem.maxStack <= 1) {
-            errorMessage = 'Item cannot be stacked';
-            return {
-                success: false,
-                newItem: null,
-                items: items,
-            };
+            return itemErrors.fail(ItemErrorCode.NOT_STACKABLE, { id: items[stackIndex].id });
         }
 
         const totalQuantity = items[stackableIndex].quantity + items[stackIndex].quantity;
         if (totalQuantity > items[stackableIndex].maxStack) {
-            errorMessage = 'Total quantity exceeds max stack';
-            return {
-                success: false,
-                newItem: null,
-                items: items,
-            };
+            return itemErrors.fail(ItemErrorCode.MAX_STACK_EXCEEDED, { maxStack: items[stackableIndex].maxStack });
         }
 
         const diffToMax = items[stackableIndex].maxStack - items[stackableIndex].quantity;
         const amountToStack = Math.min(diffToMax, items[stackIndex].quantity);
 
         if (amountToStack === 0) {
-            errorMessage = 'No items can be stacked (max stack already reached)';
-            return {
-                success: false,
-                newItem: null,
-                items: items,
-            };
+            return itemErrors.fail(ItemErrorCode.MAX_STACK_EXCEEDED, { maxStack: items[stackableIndex].maxStack });
         }
 
         items[stackableIndex] = { ...items[stackableIndex], quantity: items[stackableIndex].quantity + amountToStack };
@@ -354,35 +610,86 @@ export function useItemArrayManager() {
             }
         }
 
-        return {
-            success: true,
-            newItem: items[stackableIndex],
-            items: items,
-        };
+        return { success: true, newItem: items[stackableIndex], items };
+    }
+
+    function move(
+        uid: string,
+        position: { x: number; y: number },
+        rotation: number | undefined,
+        items: Item[],
+        options: Omit<AddOptions, 'data'> = {},
+    ): ItemResult<{ items: Item[] }> {
+        items = cloneItems(items);
+
+        const index = items.findIndex((x) => x.uid === uid);
+        if (index <= -1) {
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
+        }
+
+        const item = items[index];
+        const newRotation = typeof rotation === 'undefined' ? item.rotation : rotation;
+
+        if (!ItemManagerConfig.slots.enabled) {
+            item.position = { x: position.x, y: position.y };
+            item.rotation = newRotation;
+            return { success: true, items };
+        }
+
+        const maxCells = options.maxCells || ItemManagerConfig.slots.maxCells;
+        if (!gridManager.placeUnpositioned(items, maxCells)) {
+            return itemErrors.fail(ItemErrorCode.SLOTS_EXCEEDED);
+        }
+
+        if (!gridManager.isInBounds(item, position, maxCells, newRotation)) {
+            return itemErrors.fail(ItemErrorCode.OUT_OF_BOUNDS, { position });
+        }
+
+        const overlapping = gridManager.getOverlapping(item, position, items, newRotation);
+        if (overlapping.length > 1) {
+            return itemErrors.fail(ItemErrorCode.COLLISION, { uids: overlapping.map((x) => x.uid) });
+        }
+
+        const oldPosition = item.position;
+        item.position = { x: position.x, y: position.y };
+        item.rotation = newRotation;
+
+        // Swap with the item that currently occupies the target cells
+        if (overlapping.length === 1) {
+            overlapping[0].position = oldPosition;
+        }
+
+        if (!gridManager.validate(items, maxCells)) {
+            return itemErrors.fail(ItemErrorCode.COLLISION, { uids: overlapping.map((x) => x.uid) });
+        }
+
+        return { success: true, items };
     }
 
-    function update(uid: string, data: Partial<Omit<Item, '_id'>>, items: Item[]): Item[] | undefined {
-        errorMessage = '';
+    function update(uid: string, data: Partial<Omit<Item, '_id'>>, items: Item[]): ItemResult<{ items: Item[] }> {
         items = cloneItems(items);
 
         const index = items.findIndex((x) => x.uid === uid);
         if (index <= -1) {
-            setErrorMessage('Unable to get item by uid, item does not exist');
-            return undefined;
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid });
         }
 
         if (typeof data.decay !== 'undefined' && data.decay <= 0) {
             items.splice(index, 1);
-            return items;
+            return { success: true, items };
         }
 
         items[index] = Object.assign(items[index], data);
-        return items;
+        return { success: true, items };
     }
 
     function invokeDecay(items: Item[]): Item[] {
         items = cloneItems(items);
         for (let i = items.length - 1; i >= 0; i--) {
+            if (Array.isArray(items[i].data?.items)) {
+                items[i].data.items = invokeDecay(items[i].data.items);
+            }
+
             if (typeof items[i].decay === 'undefined') {
                 continue;
             }
@@ -396,20 +703,136 @@ export function useItemArrayManager() {
         return items;
     }
 
+    function query(query: ItemQuery, items: Readonly<Item[]>): Readonly<Item>[] {
+        return items.filter((item) => matchesQuery(item, query));
+    }
+
+    function countById(items: Readonly<Item[]>): { [id: string]: number } {
+        const counts: { [id: string]: number } = {};
+        for (let item of items) {
+            counts[item.id] = (counts[item.id] ?? 0) + item.quantity;
+        }
+
+        return counts;
+    }
+
+    /**
+     * Returns the totals of the items, grid totals use the `maxCells` of the options
+     *
+     * @param {Item[]} items
+     * @param {AddOptions} [options={}]
+     * @return {ItemSummary}
+     */
+    function getSummary(items: Readonly<Item[]>, options: AddOptions = {}): ItemSummary {
+        const maxCells = options.maxCells || ItemManagerConfig.slots.maxCells;
+        return {
+            counts: countById(items),
+            weight: getTotalWeight(items),
+            freeCells: gridManager.getFreeCells(items, maxCells),
+            largestFreeArea: gridManager.getLargestFreeArea(items, maxCells),
+        };
+    }
+
+    /**
+     * Assigns new grid positions to the items, does nothing if slots are disabled
+     *
+     * @param {Item[]} items
+     * @param {Omit<AddOptions, 'data'>} options
+     * @param {Item[]} [placementOrder=items] The order items are placed in, the array order is kept
+     * @return {ItemResult<{ items: Item[] }>}
+     */
+    function arrange(
+        items: Item[],
+        options: Omit<AddOptions, 'data'>,
+        placementOrder: Item[] = items,
+    ): ItemResult<{ items: Item[] }> {
+        if (!ItemManagerConfig.slots.enabled) {
+            return { success: true, items };
+        }
+
+        if (!gridManager.repack(placementOrder, options.maxCells || ItemManagerConfig.slots.maxCells)) {
+            return itemErrors.fail(ItemErrorCode.SLOTS_EXCEEDED);
+        }
+
+        return { success: true, items };
+    }
+
+    function sort(
+        mode: ItemSortMode,
+        items: Item[],
+        options: Omit<AddOptions, 'data'> = {},
+    ): ItemResult<{ items: Item[] }> {
+        items = cloneItems(items).sort(getSortCompare(mode));
+        return arrange(items, options);
+    }
+
+    function compact(items: Item[], options: Omit<AddOptions, 'data'> = {}): ItemResult<{ items: Item[] }> {
+        const stacks: Item[] = [];
+        for (let item of cloneItems(items)) {
+            const maxStack = itemManager.getBaseItem(item.id as ItemIDs)?.maxStack ?? item.maxStack;
+            for (let stack of stacks) {
+                if (item.quantity <= 0 || maxStack <= 1) {
+                    break;
+                }
+
+                if (stack.quantity >= maxStack || !canMerge(stack, item)) {
+                    continue;
+                }
+
+                const amountToMerge = Math.min(maxStack - stack.quantity, item.quantity);
+                stack.quantity += amountToMerge;
+                item.quantity -= amountToMerge;
+            }
+
+            if (item.quantity > 0) {
+                stacks.push(item);
+            }
+        }
+
+        // Larger items are placed first so they are not blocked by small items, the array order is kept
+        const placementOrder = [...stacks].sort((a, b) => {
+            const sizeA = gridManager.getSize(a);
+            const sizeB = gridManager.getSize(b);
+            return sizeB.width * sizeB.height - sizeA.width * sizeA.height;
+        });
+
+        return arrange(stacks, options, placementOrder);
+    }
+
+    /**
+     * Verify that the items fit in the grid, and do not exceed the max weight
+     *
+     * @param {Item[]} items
+     * @param {AddOptions} [options={}]
+     * @return {ItemResult}
+     */
+    function verify(items: Item[], options: AddOptions = {}): ItemResult {
+        const error = verifyStackAndWeight(items, options);
+        return error ? { success: false, error } : { success: true };
+    }
+
     return {
         add,
         addSpecificItem,
+        compact,
+        countById,
         getByUid,
+        getContents,
         getData,
-        getErrorMessage,
+        getSummary,
+        getWeight: getTotalWeight,
         has,
         invokeDecay,
+        move,
+        query,
         remove,
         removeAt,
+        removeById,
         removeQuantityFrom,
-        setErrorMessage,
+        sort,
         split,
         stack,
         update,
+        verify,
     };
 }
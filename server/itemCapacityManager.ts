@@ -0,0 +1,95 @@
+import * as alt from 'alt-server';
+import { Item, ItemContainerType } from '../shared/types.js';
+
+type CapacityContext = {
+    /**
+     * The kind of inventory the limit is for
+     */
+    container: ItemContainerType;
+
+    /**
+     * The items currently in the inventory
+     */
+    items: Readonly<Item[]>;
+
+    /**
+     * The player that owns the inventory, if any
+     */
+    player?: alt.Player;
+
+    /**
+     * The vehicle that owns the inventory, if any
+     */
+    vehicle?: alt.Vehicle;
+
+    /**
+     * The storage identifier, if any
+     */
+    identifier?: string;
+};
+
+/**
+ * Returns the new max weight, ie. `maxWeight + 10` for a backpack
+ */
+type CapacityModifier = (maxWeight: number, context: CapacityContext) => number;
+
+const modifiers: { [name: string]: CapacityModifier } = {};
+
+export function useItemCapacityManager() {
+    /**
+     * Register a carry capacity modifier, modifiers are applied in the order they were registered
+     *
+     * Registering an existing modifier name overwrites the modifier
+     *
+     * @param {string} name
+     * @param {CapacityModifier} modifier
+     */
+    function register(name: string, modifier: CapacityModifier) {
+        modifiers[name] = modifier;
+    }
+
+    /**
+     * Remove a registered carry capacity modifier
+     *
+     * @param {string} name
+     * @return {boolean}
+     */
+    function unregister(name: string) {
+        if (!modifiers[name]) {
+            return false;
+        }
+
+        delete modifiers[name];
+        return true;
+    }
+
+    /**
+     * Applies all modifiers to a max weight
+     *
+     * A modifier that throws, or returns an invalid number, is skipped
+     *
+     * @param {number} maxWeight
+     * @param {CapacityContext} context
+     * @return {number}
+     */
+    function getMaxWeight(maxWeight: number, context: CapacityContext): number {
+        for (let name of Object.keys(modifiers)) {
+            try {
+                const result = modifiers[name](maxWeight, context);
+                if (typeof result === 'number' && Number.isFinite(result)) {
+                    maxWeight = Math.max(0, result);
+                }
+            } catch (err) {
+                alt.logWarning(`[Item Capacity] Modifier ${name} failed, ${err}`);
+            }
+        }
+
+        return maxWeight;
+    }
+
+    return {
+        getMaxWeight,
+        register,
+        unregister,
+    };
+}
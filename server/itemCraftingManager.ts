@@ -0,0 +1,202 @@
+import * as alt from 'alt-server';
+import * as Utility from '@Shared/utility/index.js';
+import { AddOptions, Item, ItemErrorCode, ItemResult, Recipe } from '../shared/types.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { usePlayerItemManager } from './playerItemManager.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+const recipes: { [id: string]: Recipe } = {};
+const lockManager = useItemLockManager();
+
+export function useItemCraftingManager() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    /**
+     * Applies a recipe to a copy of the items
+     *
+     * Fails if inputs or tools are missing, a tool does not have enough durability left, or the outputs do not fit
+     *
+     * @param {Recipe} recipe
+     * @param {number} times
+     * @param {Item[]} items
+     * @param {Omit<AddOptions, 'data'>} options
+     * @return {ItemResult<{ items: Item[] }>}
+     */
+    function applyRecipe(
+        recipe: Recipe,
+        times: number,
+        items: Item[],
+        options: Omit<AddOptions, 'data'>,
+    ): ItemResult<{ items: Item[] }> {
+        if (!Number.isInteger(times) || times <= 0) {
+            return itemErrors.fail(ItemErrorCode.INVALID_QUANTITY, { quantity: times });
+        }
+
+        items = Utility.clone.arrayData(items);
+
+        for (let input of recipe.inputs) {
+            if (!itemArrayManager.has(input.id, input.quantity * times, items)) {
+                return itemErrors.fail(ItemErrorCode.INSUFFICIENT_QUANTITY, {
+                    id: input.id,
+                    quantity: input.quantity * times,
+                });
+            }
+        }
+
+        for (let tool of recipe.tools ?? []) {
+            const durabilityCost = tool.durabilityCost * times;
+            const toolItem = items.find(
+                (x) => x.id === tool.id && (typeof x.durability === 'undefined' || x.durability >= durabilityCost),
+            );
+
+            if (!toolItem) {
+                const isBroken = items.some((x) => x.id === tool.id);
+                return itemErrors.fail(isBroken ? ItemErrorCode.BROKEN : ItemErrorCode.MISSING_TOOL, { id: tool.id });
+            }
+
+            if (typeof toolItem.durability !== 'undefined') {
+                toolItem.durability -= durabilityCost;
+            }
+        }
+
+        for (let input of recipe.inputs) {
+            const result = itemArrayManager.removeById(input.id, input.quantity * times, items);
+            if (result.success === false) {
+                return result;
+            }
+
+            items = result.items;
+        }
+
+        for (let output of recipe.outputs) {
+            const addOptions: AddOptions = { ...options };
+            if (output.data) {
+                addOptions.data = output.data;
+            }
+
+            const result = itemArrayManager.add(output.id, output.quantity * times, items, addOptions);
+            if (result.success === false) {
+                return result;
+            }
+
+            items = result.items;
+        }
+
+        return { success: true, items };
+    }
+
+    /**
+     * Register a recipe, registering an existing recipe id overwrites the recipe
+     *
+     * @param {Recipe} recipe
+     */
+    function register(recipe: Recipe) {
+        recipes[recipe.id] = Utility.clone.objectData(recipe);
+    }
+
+    /**
+     * Remove a registered recipe
+     *
+     * @param {string} id
+     * @return {boolean}
+     */
+    function unregister(id: string) {
+        if (!recipes[id]) {
+            return false;
+        }
+
+        delete recipes[id];
+        return true;
+    }
+
+    /**
+     * Returns a recipe by id, returns `undefined` if the recipe does not exist
+     *
+     * @param {string} id
+     * @return {(Readonly<Recipe> | undefined)}
+     */
+    function get(id: string): Readonly<Recipe> | undefined {
+        return recipes[id] ? Utility.clone.objectData<Recipe>(recipes[id]) : undefined;
+    }
+
+    /**
+     * Returns all registered recipes
+     *
+     * @return {Readonly<Recipe[]>}
+     */
+    function getAll(): Readonly<Recipe[]> {
+        return Object.values(recipes).map((recipe) => Utility.clone.objectData<Recipe>(recipe));
+    }
+
+    /**
+     * Check if a player has all inputs and tools, and enough space for the outputs
+     *
+     * @param {alt.Player} player
+     * @param {string} recipeId
+     * @param {number} [times=1]
+     * @return {boolean}
+     */
+    function canCraft(player: alt.Player, recipeId: string, times: number = 1): boolean {
+        const recipe = recipes[recipeId];
+        if (!recipe) {
+            itemErrors.track(itemErrors.fail(ItemErrorCode.RECIPE_NOT_FOUND, { recipeId }));
+            return false;
+        }
+
+        const playerManager = usePlayerItemManager(player);
+        const container = playerManager.getContainer();
+        return itemErrors.track(applyRecipe(recipe, times, [...playerManager.get()], container.getOptions())).success;
+    }
+
+    /**
+     * Craft a recipe a number of times for a player
+     *
+     * Inputs are removed, tools lose durability, and outputs are added as one change to the player's items.
+     * Nothing changes if any input or tool is missing, or the outputs do not fit.
+     *
+     * @param {alt.Player} player
+     * @param {string} recipeId
+     * @param {number} [times=1]
+     * @return {Promise<ItemResult>}
+     */
+    async function craft(player: alt.Player, recipeId: string, times: number = 1): Promise<ItemResult> {
+        const recipe = recipes[recipeId];
+        if (!recipe) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.RECIPE_NOT_FOUND, { recipeId }));
+        }
+
+        const container = usePlayerItemManager(player).getContainer();
+        return lockManager.run(container.lockKeys, async () => {
+            const result = applyRecipe(recipe, times, await container.getItems(), container.getOptions());
+            if (result.success === false) {
+                return itemErrors.track(result);
+            }
+
+            await container.setItems(result.items);
+
+            for (let input of recipe.inputs) {
+                container.invokeOnItemRemoved(input.id, input.quantity * times);
+            }
+
+            for (let output of recipe.outputs) {
+                container.invokeOnItemAdded(output.id, output.quantity * times);
+            }
+
+            container.invokeOnItemsUpdated(result.items);
+            return itemErrors.track({ success: true });
+        });
+    }
+
+    return {
+        canCraft,
+        craft,
+        get,
+        getAll,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        register,
+        unregister,
+    };
+}
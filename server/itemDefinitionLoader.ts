@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as alt from 'alt-server';
+
+import { BaseItem, ItemValidationError } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+import { useItemManager } from './itemManager.js';
+import { useItemValidator } from './itemValidator.js';
+
+type DefinitionError = { file: string; id?: string; errors: ItemValidationError[] };
+
+const SUPPORTED_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const RELOAD_DELAY = 250;
+
+const itemManager = useItemManager();
+const validator = useItemValidator();
+
+let watcher: fs.FSWatcher | undefined;
+let reloadTimeout: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Parses the content of a definition file based on its extension
+ *
+ * YAML files require the `yaml` package to be installed on the server
+ *
+ * @param {string} filePath
+ * @return {Promise<unknown>}
+ */
+async function parseFile(filePath: string): Promise<unknown> {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    if (path.extname(filePath).toLowerCase() === '.json') {
+        return JSON.parse(content);
+    }
+
+    // Imported by name so the package stays optional
+    const yamlPackage = 'yaml';
+    let yaml: { parse: (content: string) => unknown };
+
+    try {
+        yaml = await import(yamlPackage);
+    } catch (err) {
+        throw new Error(`YAML files require the yaml package, install it with npm install yaml - ${err}`);
+    }
+
+    return yaml.parse(content);
+}
+
+export function useItemDefinitionLoader() {
+    /**
+     * Read, validate, and upsert all item definitions in a folder
+     *
+     * Invalid items and duplicate ids are skipped and returned as errors, all other items are saved to the database
+     *
+     * @param {string} [folder=ItemManagerConfig.definitions.path]
+     * @return {Promise<{ loaded: string[]; errors: DefinitionError[] }>}
+     */
+    async function load(
+        folder: string = ItemManagerConfig.definitions.path,
+    ): Promise<{ loaded: string[]; errors: DefinitionError[] }> {
+        const errors: DefinitionError[] = [];
+        const definitions: { [id: string]: { file: string; item: BaseItem } } = {};
+        const duplicateIds: string[] = [];
+
+        if (!fs.existsSync(folder)) {
+            errors.push({ file: folder, errors: [{ field: 'path', message: 'Folder does not exist' }] });
+            return { loaded: [], errors };
+        }
+
+        const files = fs
+            .readdirSync(folder)
+            .filter((file) => SUPPORTED_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+
+        for (let file of files) {
+            let content: unknown;
+
+            try {
+                content = await parseFile(path.join(folder, file));
+            } catch (err) {
+                errors.push({ file, errors: [{ field: 'file', message: `Could not parse file, ${err}` }] });
+                continue;
+            }
+
+            const items: unknown[] = Array.isArray(content) ? content : [content];
+            for (let entry of items) {
+                const partialItem = entry && typeof entry === 'object' ? (entry as Partial<BaseItem>) : undefined;
+                if (partialItem && typeof partialItem.rotation === 'undefined') {
+                    partialItem.rotation = 0;
+                }
+
+                const validationErrors = validator.validate(entry);
+                if (validationErrors.length >= 1) {
+                    const id = typeof partialItem?.id === 'string' ? partialItem.id : undefined;
+                    errors.push({ file, id, errors: validationErrors });
+                    continue;
+                }
+
+                const item = entry as BaseItem;
+
+                if (definitions[item.id]) {
+                    duplicateIds.push(item.id);
+                    errors.push({
+                        file,
+                        id: item.id,
+                        errors: [{ field: 'id', message: `Id is already defined in ${definitions[item.id].file}` }],
+                    });
+                    continue;
+                }
+
+                definitions[item.id] = { file, item };
+            }
+        }
+
+        // Duplicate ids are skipped entirely, it is unclear which definition is correct
+        for (let id of duplicateIds) {
+            delete definitions[id];
+        }
+
+        const loaded: string[] = [];
+        for (let id of Object.keys(definitions)) {
+            const result = await itemManager.create(definitions[id].item);
+            if (!result.success) {
+                errors.push({ file: definitions[id].file, id, errors: result.errors });
+                continue;
+            }
+
+            loaded.push(id);
+        }
+
+        for (let error of errors) {
+            const source = error.id ? `${error.file} (${error.id})` : error.file;
+            alt.logWarning(`[Item Definitions] ${source} - ${validator.format(error.errors)}`);
+        }
+
+        alt.log(`[Item Definitions] Loaded ${loaded.length} items from ${files.length} files`);
+        return { loaded, errors };
+    }
+
+    /**
+     * Watch a folder and reload all item definitions whenever a file changes
+     *
+     * @param {string} [folder=ItemManagerConfig.definitions.path]
+     * @return {boolean}
+     */
+    function watch(folder: string = ItemManagerConfig.definitions.path): boolean {
+        if (watcher || !fs.existsSync(folder)) {
+            return false;
+        }
+
+        watcher = fs.watch(folder, (event, filename) => {
+            if (!filename || !SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+                return;
+            }
+
+            // Editors often write a file multiple times in a row
+            clearTimeout(reloadTimeout);
+            reloadTimeout = setTimeout(() => {
+                load(folder).catch((err) => alt.logWarning(`[Item Definitions] Reload failed, ${err}`));
+            }, RELOAD_DELAY);
+        });
+
+        return true;
+    }
+
+    /**
+     * Stop watching the item definition folder
+     */
+    function stopWatching() {
+        if (!watcher) {
+            return;
+        }
+
+        clearTimeout(reloadTimeout);
+        watcher.close();
+        watcher = undefined;
+    }
+
+    return {
+        load,
+        stopWatching,
+        watch,
+    };
+}
+
+async function init() {
+    const loader = useItemDefinitionLoader();
+    await loader.load();
+
+    if (ItemManagerConfig.definitions.watch) {
+        loader.watch();
+    }
+}
+
+if (ItemManagerConfig.definitions.enabled) {
+    init().catch((err) => alt.logWarning(`[Item Definitions] Loading failed, ${err}`));
+}
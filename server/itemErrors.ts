@@ -0,0 +1,78 @@
+import { ItemError, ItemErrorCode } from '../shared/types.js';
+import { useItemLocaleManager } from './itemLocaleManager.js';
+
+const localeManager = useItemLocaleManager();
+
+export function useItemErrors() {
+    let lastError: ItemError | undefined;
+
+    /**
+     * Create an error for a code, with an optional set of details
+     *
+     * The message is in the default language, use `getErrorMessage` or `useItemLocaleManager().translate` for others
+     *
+     * @param {ItemErrorCode} code
+     * @param {{ [key: string]: any }} [details]
+     * @return {ItemError}
+     */
+    function create(code: ItemErrorCode, details?: { [key: string]: any }): ItemError {
+        const error: ItemError = { code, message: localeManager.getMessage(code, undefined, details) };
+        if (details) {
+            error.details = details;
+        }
+
+        return error;
+    }
+
+    /**
+     * Create a failed result for a code, with an optional set of details
+     *
+     * @param {ItemErrorCode} code
+     * @param {{ [key: string]: any }} [details]
+     * @return {{ success: false; error: ItemError }}
+     */
+    function fail(code: ItemErrorCode, details?: { [key: string]: any }): { success: false; error: ItemError } {
+        return { success: false, error: create(code, details) };
+    }
+
+    /**
+     * Remember the error of a result, and return the result unchanged
+     *
+     * A successful result clears the last error
+     *
+     * @template T
+     * @param {T} result
+     * @return {T}
+     */
+    function track<T extends { success: boolean; error?: ItemError }>(result: T): T {
+        lastError = result.success ? undefined : result.error;
+        return result;
+    }
+
+    /**
+     * Returns the error of the last tracked result, `undefined` if it succeeded
+     *
+     * @return {(ItemError | undefined)}
+     */
+    function getError(): ItemError | undefined {
+        return lastError;
+    }
+
+    /**
+     * Returns the message of the last tracked error in a language, an empty string if it succeeded
+     *
+     * @param {string} [locale] Uses the default language if not provided
+     * @return {string}
+     */
+    function getErrorMessage(locale?: string): string {
+        return lastError ? localeManager.translate(lastError, locale) : '';
+    }
+
+    return {
+        create,
+        fail,
+        getError,
+        getErrorMessage,
+        track,
+    };
+}
@@ -0,0 +1,376 @@
+import { Item } from '../shared/types.js';
+
+type Cells = { width: number; height: number };
+type Position = { x: number; y: number };
+
+/**
+ * Check if a rotation turns the item on its side, which swaps width and height
+ *
+ * @param {number} [rotation=0]
+ * @return {boolean}
+ */
+function isSideways(rotation: number = 0): boolean {
+    const normalized = ((rotation % 360) + 360) % 360;
+    return normalized === 90 || normalized === 270;
+}
+
+/**
+ * Creates a 2D occupancy map of all positioned items
+ *
+ * Items without a position, or with a uid in `ignoreUids` are not marked
+ *
+ * @param {Item[]} items
+ * @param {Cells} maxCells
+ * @param {string[]} [ignoreUids=[]]
+ * @return {boolean[][]}
+ */
+function createOccupancy(items: Readonly<Item[]>, maxCells: Cells, ignoreUids: string[] = []): boolean[][] {
+    const occupancy: boolean[][] = [];
+    for (let y = 0; y < maxCells.height; y++) {
+        occupancy.push(new Array(maxCells.width).fill(false));
+    }
+
+    for (let item of items) {
+        if (!item.position || ignoreUids.includes(item.uid)) {
+            continue;
+        }
+
+        const size = getSize(item);
+        for (let y = item.position.y; y < item.position.y + size.height; y++) {
+            for (let x = item.position.x; x < item.position.x + size.width; x++) {
+                if (occupancy[y] && typeof occupancy[y][x] !== 'undefined') {
+                    occupancy[y][x] = true;
+                }
+            }
+        }
+    }
+
+    return occupancy;
+}
+
+/**
+ * Returns the width and height an item occupies with the given rotation
+ *
+ * @param {Item} item
+ * @param {number} [rotation=item.rotation]
+ * @return {Cells}
+ */
+function getSize(item: Readonly<Item>, rotation: number = item.rotation): Cells {
+    const width = item.width ?? 1;
+    const height = item.height ?? 1;
+    return isSideways(rotation) ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Check if an item with the given rotation fits inside of the grid at a position
+ *
+ * @param {Item} item
+ * @param {Position} position
+ * @param {Cells} maxCells
+ * @param {number} [rotation=item.rotation]
+ * @return {boolean}
+ */
+function isInBounds(
+    item: Readonly<Item>,
+    position: Position,
+    maxCells: Cells,
+    rotation: number = item.rotation,
+): boolean {
+    const size = getSize(item, rotation);
+    if (!Number.isInteger(position.x) || !Number.isInteger(position.y)) {
+        return false;
+    }
+
+    if (position.x < 0 || position.y < 0) {
+        return false;
+    }
+
+    return position.x + size.width <= maxCells.width && position.y + size.height <= maxCells.height;
+}
+
+/**
+ * Check if an occupancy map has free cells for a size at a position
+ *
+ * @param {boolean[][]} occupancy
+ * @param {Position} position
+ * @param {Cells} size
+ * @return {boolean}
+ */
+function isAreaFree(occupancy: boolean[][], position: Position, size: Cells): boolean {
+    for (let y = position.y; y < position.y + size.height; y++) {
+        for (let x = position.x; x < position.x + size.width; x++) {
+            if (!occupancy[y] || occupancy[y][x] !== false) {
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
+
+export function useItemGridManager() {
+    /**
+     * Check if an item can be placed at a position without leaving the grid or overlapping other items
+     *
+     * The item itself is always ignored, so it can be checked against its own current spot
+     *
+     * @param {Item} item
+     * @param {Position} position
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @param {number} [rotation=item.rotation]
+     * @param {string[]} [ignoreUids=[]]
+     * @return {boolean}
+     */
+    function canPlace(
+        item: Readonly<Item>,
+        position: Position,
+        items: Readonly<Item[]>,
+        maxCells: Cells,
+        rotation: number = item.rotation,
+        ignoreUids: string[] = [],
+    ): boolean {
+        if (!isInBounds(item, position, maxCells, rotation)) {
+            return false;
+        }
+
+        const occupancy = createOccupancy(items, maxCells, [item.uid, ...ignoreUids]);
+        return isAreaFree(occupancy, position, getSize(item, rotation));
+    }
+
+    /**
+     * Returns all items that would overlap with an item at the given position and rotation
+     *
+     * @param {Item} item
+     * @param {Position} position
+     * @param {Item[]} items
+     * @param {number} [rotation=item.rotation]
+     * @return {Item[]}
+     */
+    function getOverlapping<T extends Readonly<Item>>(
+        item: Readonly<Item>,
+        position: Position,
+        items: T[],
+        rotation: number = item.rotation,
+    ): T[] {
+        const size = getSize(item, rotation);
+        return items.filter((other) => {
+            if (other.uid === item.uid || !other.position) {
+                return false;
+            }
+
+            const otherSize = getSize(other);
+            return (
+                position.x < other.position.x + otherSize.width &&
+                other.position.x < position.x + size.width &&
+                position.y < other.position.y + otherSize.height &&
+                other.position.y < position.y + size.height
+            );
+        });
+    }
+
+    /**
+     * Find the first free position for an item, scanning rows from the top left
+     *
+     * Tries the current rotation of the item first, and then the item turned on its side
+     *
+     * Returns `undefined` if the item does not fit anywhere
+     *
+     * @param {Item} item
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {({ position: Position; rotation: number } | undefined)}
+     */
+    function findFreePosition(
+        item: Readonly<Item>,
+        items: Readonly<Item[]>,
+        maxCells: Cells,
+    ): { position: Position; rotation: number } | undefined {
+        const occupancy = createOccupancy(items, maxCells, [item.uid]);
+        const currentRotation = item.rotation ?? 0;
+        const rotations = [currentRotation];
+        if (item.width !== item.height) {
+            rotations.push(isSideways(currentRotation) ? 0 : 90);
+        }
+
+        for (let rotation of rotations) {
+            const size = getSize(item, rotation);
+            for (let y = 0; y + size.height <= maxCells.height; y++) {
+                for (let x = 0; x + size.width <= maxCells.width; x++) {
+                    if (isAreaFree(occupancy, { x, y }, size)) {
+                        return { position: { x, y }, rotation };
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Finds a free position for the item and assigns it, mutates the item
+     *
+     * Returns `false` if there is no free position left
+     *
+     * @param {Item} item
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {boolean}
+     */
+    function place(item: Item, items: Readonly<Item[]>, maxCells: Cells): boolean {
+        const result = findFreePosition(item, items, maxCells);
+        if (!result) {
+            return false;
+        }
+
+        item.position = result.position;
+        item.rotation = result.rotation;
+        return true;
+    }
+
+    /**
+     * Assigns positions to any items that were stored before positions were tracked, mutates the items
+     *
+     * Returns `false` if one of the items could not be placed
+     *
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {boolean}
+     */
+    function placeUnpositioned(items: Item[], maxCells: Cells): boolean {
+        for (let item of items) {
+            if (item.position) {
+                continue;
+            }
+
+            if (!place(item, items, maxCells)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Assigns new positions to all items, in the order of the array, mutates the items
+     *
+     * Returns `false` if one of the items could not be placed
+     *
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {boolean}
+     */
+    function repack(items: Item[], maxCells: Cells): boolean {
+        const placedItems: Item[] = [];
+        for (let item of items) {
+            if (!place(item, placedItems, maxCells)) {
+                return false;
+            }
+
+            placedItems.push(item);
+        }
+
+        return true;
+    }
+
+    /**
+     * Returns the amount of grid cells that are not occupied by any item
+     *
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {number}
+     */
+    function getFreeCells(items: Readonly<Item[]>, maxCells: Cells): number {
+        const occupancy = createOccupancy(items, maxCells);
+        return occupancy.reduce((sum, row) => sum + row.filter((cell) => !cell).length, 0);
+    }
+
+    /**
+     * Returns the size of the largest free rectangle in the grid, the largest item that still fits without rotating
+     *
+     * Returns a size of zero if the grid is full
+     *
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {Cells}
+     */
+    function getLargestFreeArea(items: Readonly<Item[]>, maxCells: Cells): Cells {
+        const occupancy = createOccupancy(items, maxCells);
+        const heights: number[] = new Array(maxCells.width).fill(0);
+        let largest: Cells = { width: 0, height: 0 };
+
+        for (let y = 0; y < maxCells.height; y++) {
+            for (let x = 0; x < maxCells.width; x++) {
+                heights[x] = occupancy[y][x] ? 0 : heights[x] + 1;
+            }
+
+            // Every free column height is the tallest rectangle ending in this row, widen it as far as possible
+            for (let x = 0; x < maxCells.width; x++) {
+                if (heights[x] <= 0) {
+                    continue;
+                }
+
+                let left = x;
+                while (left > 0 && heights[left - 1] >= heights[x]) {
+                    left--;
+                }
+
+                let right = x;
+                while (right < maxCells.width - 1 && heights[right + 1] >= heights[x]) {
+                    right++;
+                }
+
+                const width = right - left + 1;
+                if (width * heights[x] > largest.width * largest.height) {
+                    largest = { width, height: heights[x] };
+                }
+            }
+        }
+
+        return largest;
+    }
+
+    /**
+     * Verify that every item has a position inside of the grid, and that no items overlap
+     *
+     * @param {Item[]} items
+     * @param {Cells} maxCells
+     * @return {boolean}
+     */
+    function validate(items: Readonly<Item[]>, maxCells: Cells): boolean {
+        const occupancy = createOccupancy([], maxCells);
+
+        for (let item of items) {
+            if (!item.position || !isInBounds(item, item.position, maxCells)) {
+                return false;
+            }
+
+            const size = getSize(item);
+            if (!isAreaFree(occupancy, item.position, size)) {
+                return false;
+            }
+
+            for (let y = item.position.y; y < item.position.y + size.height; y++) {
+                for (let x = item.position.x; x < item.position.x + size.width; x++) {
+                    occupancy[y][x] = true;
+                }
+            }
+        }
+
+        return true;
+    }
+
+    return {
+        canPlace,
+        findFreePosition,
+        getFreeCells,
+        getLargestFreeArea,
+        getOverlapping,
+        getSize,
+        isInBounds,
+        place,
+        placeUnpositioned,
+        repack,
+        validate,
+    };
+}
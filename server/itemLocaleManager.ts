@@ -0,0 +1,201 @@
+import * as alt from 'alt-server';
+import { useRebar } from '@Server/index.js';
+import { ItemError, ItemErrorCode, ItemMessages, LocaleExtension } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+
+const Rebar = useRebar();
+
+const catalogs: { [locale: string]: ItemMessages } = {
+    en: {
+        [ItemErrorCode.BASE_ITEM_NOT_FOUND]: 'Base item does not exist',
+        [ItemErrorCode.ITEM_NOT_FOUND]: 'Could not find item',
+        [ItemErrorCode.INVALID_QUANTITY]: 'Quantity must be greater than zero',
+        [ItemErrorCode.INSUFFICIENT_QUANTITY]: 'Not enough quantity of item',
+        [ItemErrorCode.SLOTS_EXCEEDED]: 'Not enough space for item',
+        [ItemErrorCode.WEIGHT_EXCEEDED]: 'Inventory is too heavy',
+        [ItemErrorCode.OUT_OF_BOUNDS]: 'Item does not fit at that position',
+        [ItemErrorCode.COLLISION]: 'Item collides with other items',
+        [ItemErrorCode.NOT_STACKABLE]: 'Item cannot be stacked',
+        [ItemErrorCode.NOT_SAME_ITEM]: 'Both items were not the same, and cannot be stacked',
+        [ItemErrorCode.MAX_STACK_EXCEEDED]: 'Total quantity exceeds max stack',
+        [ItemErrorCode.CANNOT_SPLIT]: 'Item cannot be split',
+        [ItemErrorCode.BROKEN]: 'Item is broken',
+        [ItemErrorCode.NO_USAGE_EVENT]: 'Item does not have any registered usage callbacks',
+        [ItemErrorCode.RULE_RESTRICTED]: 'Item is restricted by the {rule} rule',
+        [ItemErrorCode.SAME_CONTAINER]: 'Cannot move an item into the same inventory',
+        [ItemErrorCode.SAVE_FAILED]: 'Failed to save inventory, changes were rolled back',
+        [ItemErrorCode.ALREADY_TRADING]: 'Player is already trading',
+        [ItemErrorCode.NOT_TRADING]: 'Player is not trading',
+        [ItemErrorCode.TRADE_WITH_SELF]: 'Cannot trade with yourself',
+        [ItemErrorCode.NOT_OFFERED]: 'Item is not part of the trade',
+        [ItemErrorCode.TRADE_CHANGED]: 'Trade changed before it could be completed',
+        [ItemErrorCode.RECIPE_NOT_FOUND]: 'Recipe does not exist',
+        [ItemErrorCode.MISSING_TOOL]: 'Missing a required tool',
+        [ItemErrorCode.LOOT_TABLE_NOT_FOUND]: 'Loot table does not exist',
+        [ItemErrorCode.PICKUP_IN_PROGRESS]: 'Item is already being picked up',
+        [ItemErrorCode.DROP_RESTORE_FAILED]: 'Failed to drop item, and it could not be returned to the inventory',
+        [ItemErrorCode.NOT_A_CONTAINER]: 'Item cannot hold other items',
+        [ItemErrorCode.CONTAINER_RECURSION]: 'Item cannot be placed inside itself',
+        [ItemErrorCode.EQUIP_SLOT_NOT_FOUND]: 'Equipment slot {slot} does not exist',
+        [ItemErrorCode.NOT_EQUIPPABLE]: 'Item cannot be equipped in {slot}',
+        [ItemErrorCode.HOTBAR_SLOT_NOT_FOUND]: 'Hotbar slot {slot} does not exist',
+        [ItemErrorCode.CATEGORY_RESTRICTED]: 'Item is not allowed in this inventory',
+    },
+    de: {
+        [ItemErrorCode.BASE_ITEM_NOT_FOUND]: 'Basisgegenstand existiert nicht',
+        [ItemErrorCode.ITEM_NOT_FOUND]: 'Gegenstand wurde nicht gefunden',
+        [ItemErrorCode.INVALID_QUANTITY]: 'Die Menge muss größer als null sein',
+        [ItemErrorCode.INSUFFICIENT_QUANTITY]: 'Nicht genügend Gegenstände vorhanden',
+        [ItemErrorCode.SLOTS_EXCEEDED]: 'Nicht genügend Platz für den Gegenstand',
+        [ItemErrorCode.WEIGHT_EXCEEDED]: 'Das Inventar ist zu schwer',
+        [ItemErrorCode.OUT_OF_BOUNDS]: 'Der Gegenstand passt nicht an diese Position',
+        [ItemErrorCode.COLLISION]: 'Der Gegenstand überschneidet sich mit anderen Gegenständen',
+        [ItemErrorCode.NOT_STACKABLE]: 'Der Gegenstand kann nicht gestapelt werden',
+        [ItemErrorCode.NOT_SAME_ITEM]: 'Unterschiedliche Gegenstände können nicht gestapelt werden',
+        [ItemErrorCode.MAX_STACK_EXCEEDED]: 'Die Menge überschreitet die maximale Stapelgröße',
+        [ItemErrorCode.CANNOT_SPLIT]: 'Der Gegenstand kann nicht geteilt werden',
+        [ItemErrorCode.BROKEN]: 'Der Gegenstand ist kaputt',
+        [ItemErrorCode.NO_USAGE_EVENT]: 'Der Gegenstand kann nicht benutzt werden',
+        [ItemErrorCode.RULE_RESTRICTED]: 'Der Gegenstand ist durch die Regel {rule} eingeschränkt',
+        [ItemErrorCode.SAME_CONTAINER]: 'Ein Gegenstand kann nicht in dasselbe Inventar verschoben werden',
+        [ItemErrorCode.SAVE_FAILED]: 'Das Inventar konnte nicht gespeichert werden, Änderungen wurden zurückgesetzt',
+        [ItemErrorCode.ALREADY_TRADING]: 'Der Spieler handelt bereits',
+        [ItemErrorCode.NOT_TRADING]: 'Der Spieler handelt gerade nicht',
+        [ItemErrorCode.TRADE_WITH_SELF]: 'Du kannst nicht mit dir selbst handeln',
+        [ItemErrorCode.NOT_OFFERED]: 'Der Gegenstand ist nicht Teil des Handels',
+        [ItemErrorCode.TRADE_CHANGED]: 'Der Handel hat sich geändert, bevor er abgeschlossen werden konnte',
+        [ItemErrorCode.RECIPE_NOT_FOUND]: 'Rezept existiert nicht',
+        [ItemErrorCode.MISSING_TOOL]: 'Ein benötigtes Werkzeug fehlt',
+        [ItemErrorCode.LOOT_TABLE_NOT_FOUND]: 'Beutetabelle existiert nicht',
+        [ItemErrorCode.PICKUP_IN_PROGRESS]: 'Der Gegenstand wird bereits aufgehoben',
+        [ItemErrorCode.DROP_RESTORE_FAILED]:
+            'Der Gegenstand konnte nicht fallen gelassen und nicht ins Inventar zurückgelegt werden',
+        [ItemErrorCode.NOT_A_CONTAINER]: 'Der Gegenstand kann keine anderen Gegenstände aufnehmen',
+        [ItemErrorCode.CONTAINER_RECURSION]: 'Der Gegenstand kann nicht in sich selbst gelegt werden',
+        [ItemErrorCode.EQUIP_SLOT_NOT_FOUND]: 'Ausrüstungsplatz {slot} existiert nicht',
+        [ItemErrorCode.NOT_EQUIPPABLE]: 'Der Gegenstand kann nicht in {slot} ausgerüstet werden',
+        [ItemErrorCode.HOTBAR_SLOT_NOT_FOUND]: 'Schnellzugriffsplatz {slot} existiert nicht',
+        [ItemErrorCode.CATEGORY_RESTRICTED]: 'Gegenstand ist in diesem Inventar nicht erlaubt',
+    },
+};
+
+/**
+ * Replaces `{key}` placeholders in a message with values from the details
+ *
+ * @param {string} message
+ * @param {{ [key: string]: any }} [details={}]
+ * @return {string}
+ */
+function formatMessage(message: string, details: { [key: string]: any } = {}): string {
+    return message.replace(/\{(\w+)\}/g, (match, key) => {
+        return typeof details[key] !== 'undefined' ? String(details[key]) : match;
+    });
+}
+
+export function useItemLocaleManager() {
+    /**
+     * Register a language, or add messages to an existing language
+     *
+     * Codes without a message fall back to the default language
+     *
+     * @param {string} locale
+     * @param {ItemMessages} messages
+     */
+    function register(locale: string, messages: ItemMessages) {
+        catalogs[locale] = { ...catalogs[locale], ...messages };
+    }
+
+    /**
+     * Check if a language is registered
+     *
+     * @param {string} locale
+     * @return {boolean}
+     */
+    function has(locale: string): boolean {
+        return catalogs[locale] ? true : false;
+    }
+
+    /**
+     * Returns all registered languages
+     *
+     * @return {string[]}
+     */
+    function getLocales(): string[] {
+        return Object.keys(catalogs);
+    }
+
+    /**
+     * Returns the language stored on the player's character, or the default language
+     *
+     * @param {alt.Player} player
+     * @return {string}
+     */
+    function getLocale(player: alt.Player): string {
+        const document = Rebar.document.character.useCharacter(player);
+        if (!document.isValid()) {
+            return ItemManagerConfig.locale.default;
+        }
+
+        const locale = document.get<LocaleExtension>().language;
+        return locale && has(locale) ? locale : ItemManagerConfig.locale.default;
+    }
+
+    /**
+     * Store the language on the player's character
+     *
+     * @param {alt.Player} player
+     * @param {string} locale
+     * @return {Promise<boolean>}
+     */
+    async function setLocale(player: alt.Player, locale: string): Promise<boolean> {
+        const document = Rebar.document.character.useCharacter(player);
+        if (!has(locale) || !document.isValid()) {
+            return false;
+        }
+
+        await document.set<LocaleExtension>('language', locale);
+        return true;
+    }
+
+    /**
+     * Returns the message for an error code in a language
+     *
+     * Falls back to the default language, and then to English, if the language does not have the message
+     *
+     * @param {ItemErrorCode} code
+     * @param {string} [locale=ItemManagerConfig.locale.default]
+     * @param {{ [key: string]: any }} [details]
+     * @return {string}
+     */
+    function getMessage(
+        code: ItemErrorCode,
+        locale: string = ItemManagerConfig.locale.default,
+        details?: { [key: string]: any },
+    ): string {
+        const message =
+            catalogs[locale]?.[code] ?? catalogs[ItemManagerConfig.locale.default]?.[code] ?? catalogs.en[code] ?? code;
+
+        return formatMessage(message, details);
+    }
+
+    /**
+     * Returns the message of an error in a language
+     *
+     * @param {ItemError} error
+     * @param {string} [locale]
+     * @return {string}
+     */
+    function translate(error: ItemError, locale?: string): string {
+        return getMessage(error.code, locale, error.details);
+    }
+
+    return {
+        getLocale,
+        getLocales,
+        getMessage,
+        has,
+        register,
+        setLocale,
+        translate,
+    };
+}
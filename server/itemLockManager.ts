@@ -0,0 +1,93 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// The last queued operation for every locked inventory key
+const queues: { [key: string]: Promise<void> } = {};
+
+// Keys held by the current operation, so nested calls on the same inventory do not wait on themselves
+const heldKeys = new AsyncLocalStorage<string[]>();
+
+/**
+ * Waits for every earlier operation on the keys, and runs the callback while holding all of them
+ *
+ * Keys are locked one at a time in sorted order, so two operations on the same keys can never wait on each other
+ *
+ * @template T
+ * @param {string[]} keys
+ * @param {string[]} held
+ * @param {() => Promise<T>} callback
+ * @return {Promise<T>}
+ */
+async function runLocked<T>(keys: string[], held: string[], callback: () => Promise<T>): Promise<T> {
+    const [key, ...remainingKeys] = keys;
+
+    let release: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const previous = queues[key] ?? Promise.resolve();
+    const queued = previous.then(() => current);
+    queues[key] = queued;
+
+    await previous;
+
+    try {
+        if (remainingKeys.length >= 1) {
+            return await runLocked(remainingKeys, [...held, key], callback);
+        }
+
+        return await heldKeys.run([...held, key], callback);
+    } finally {
+        release();
+        if (queues[key] === queued) {
+            delete queues[key];
+        }
+    }
+}
+
+export function useItemLockManager() {
+    /**
+     * Runs a callback once all earlier operations on the same inventories have finished
+     *
+     * Operations on the same inventory key are run one after another, in the order they were called
+     *
+     * @template T
+     * @param {(string | string[])} keys The inventory keys, ie. `storage:some-stash`
+     * @param {() => Promise<T>} callback
+     * @return {Promise<T>}
+     */
+    async function run<T>(keys: string | string[], callback: () => Promise<T>): Promise<T> {
+        const held = heldKeys.getStore() ?? [];
+        const keysToLock = [...new Set(Array.isArray(keys) ? keys : [keys])].filter((key) => !held.includes(key));
+        if (keysToLock.length <= 0) {
+            return callback();
+        }
+
+        return runLocked(keysToLock.sort(), held, callback);
+    }
+
+    /**
+     * Returns a function that runs through `run` with the same keys every time it is called
+     *
+     * @template T
+     * @param {(string | string[])} keys
+     * @param {T} callback
+     * @return {T}
+     */
+    function wrap<T extends (...args: any[]) => Promise<any>>(keys: string | string[], callback: T): T {
+        return ((...args: any[]) => run(keys, () => callback(...args))) as T;
+    }
+
+    /**
+     * Check if an operation is running, or waiting, on an inventory key
+     *
+     * @param {string} key
+     * @return {boolean}
+     */
+    function isLocked(key: string): boolean {
+        return queues[key] ? true : false;
+    }
+
+    return {
+        isLocked,
+        run,
+        wrap,
+    };
+}
@@ -5,13 +5,15 @@ import * as Utility from '@Shared/utility/index.js';
 
 import { ItemIDs } from '../shared/ignoreItemIds.js';
 import { ItemManagerConfig } from '../shared/config.js';
-import { BaseItem, DatabaseBaseItem } from '../shared/types.js';
+import { BaseItem, DatabaseBaseItem, ItemValidationError } from '../shared/types.js';
 import { useItemManagerDatabase } from './database.js';
+import { useItemValidator } from './itemValidator.js';
 
 const ItemIdsFilePath = './src/plugins/asc-item-manager/shared/ignoreItemIds.ts';
 const Rebar = useRebar();
 const db = Rebar.database.useDatabase();
 const managerDb = useItemManagerDatabase();
+const validator = useItemValidator();
 
 let databaseItems: { [id: string]: DatabaseBaseItem } = {};
 let isReady = false;
@@ -49,17 +51,34 @@ export function useItemManager() {
     /**
      * Create an item, and add it to the database
      *
+     * Every field is validated, and the item is not saved if any field is invalid.
+     *
+     * The `lenient` option skips validation, and only clamps a negative weight and a max stack below one.
+     *
      * @param {BaseItem} item
+     * @param {{ lenient?: boolean }} [options={}]
+     * @return {Promise<{ success: boolean; errors: ItemValidationError[] }>}
      */
-    async function create(item: BaseItem) {
-        // Ensure weight is non-negative
-        if (item.weight < 0) {
-            item.weight = 0;
-        }
-
-        // Ensure maxStack is at least 1
-        if (item.maxStack <= 0) {
-            item.maxStack = 1;
+    async function create(
+        item: BaseItem,
+        options: { lenient?: boolean } = {},
+    ): Promise<{ success: boolean; errors: ItemValidationError[] }> {
+        if (options.lenient) {
+            // Ensure weight is non-negative
+            if (item.weight < 0) {
+                item.weight = 0;
+            }
+
+            // Ensure maxStack is at least 1
+            if (item.maxStack <= 0) {
+                item.maxStack = 1;
+            }
+        } else {
+            const errors = validator.validate(item);
+            if (errors.length >= 1) {
+                alt.logWarning(`Item ${item?.id} was not created - ${validator.format(errors)}`);
+                return { success: false, errors };
+            }
         }
 
         // Wait until the system is ready
@@ -89,6 +108,8 @@ export function useItemManager() {
                 `If you renamed the folder 'asc-item-manager' please rename the plugin back to its original name`,
             );
         }
+
+        return { success: true, errors: [] };
     }
 
     /**
@@ -0,0 +1,118 @@
+import * as alt from 'alt-server';
+import { BaseItem, Item, ItemContainerType, ItemRuleAction } from '../shared/types.js';
+
+type ItemRuleContext = {
+    /**
+     * What is being done with the item
+     */
+    action: ItemRuleAction;
+
+    /**
+     * The kind of inventory the item is going into, if any
+     */
+    container?: ItemContainerType;
+
+    /**
+     * The vehicle compartment the item is going into, if any
+     */
+    compartment?: string;
+
+    /**
+     * The player performing the action, if any
+     */
+    player?: alt.Player;
+};
+
+/**
+ * Returns `true` if the item is allowed to perform the action
+ */
+type ItemRuleCallback = (item: Readonly<BaseItem>, context: ItemRuleContext) => boolean;
+
+const rules: { [name: string]: ItemRuleCallback } = {
+    noStorage: (item, context) => context.container !== 'vehicle' && context.container !== 'storage',
+    noTrading: (item, context) => context.action !== 'trade',
+};
+
+export function useItemRuleManager() {
+    /**
+     * Register a rule that is checked whenever an item has the rule name set to `true` in its `rules`
+     *
+     * Registering an existing rule name overwrites the rule
+     *
+     * @param {string} name
+     * @param {ItemRuleCallback} callback
+     */
+    function register(name: string, callback: ItemRuleCallback) {
+        rules[name] = callback;
+    }
+
+    /**
+     * Remove a registered rule
+     *
+     * @param {string} name
+     * @return {boolean}
+     */
+    function unregister(name: string) {
+        if (!rules[name]) {
+            return false;
+        }
+
+        delete rules[name];
+        return true;
+    }
+
+    /**
+     * Check all rules enabled on an item, and on every item stored inside of it
+     *
+     * Returns the name of the first rule that prevents the action, or `undefined` if the action is allowed
+     *
+     * @param {Readonly<BaseItem>} item
+     * @param {ItemRuleContext} context
+     * @param {{ [name: string]: boolean }} [enabledRules] Rules that are checked even if the item does not enable them
+     * @return {(string | undefined)}
+     */
+    function check(
+        item: Readonly<BaseItem>,
+        context: ItemRuleContext,
+        enabledRules?: { [name: string]: boolean },
+    ): string | undefined {
+        for (let name of Object.keys({ ...item.rules, ...enabledRules })) {
+            if (!(item.rules?.[name] || enabledRules?.[name]) || !rules[name]) {
+                continue;
+            }
+
+            if (!rules[name](item, context)) {
+                return name;
+            }
+        }
+
+        // Container items carry their contents with them
+        const data = (item as Readonly<Item>).data;
+        const contents: Item[] = Array.isArray(data?.items) ? data.items : [];
+        for (let content of contents) {
+            const violatedRule = check(content, context, enabledRules);
+            if (violatedRule) {
+                return violatedRule;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Check if a rule is registered
+     *
+     * @param {string} name
+     * @return {boolean}
+     */
+    function has(name: string) {
+        return rules[name] ? true : false;
+    }
+
+    return {
+        check,
+        has,
+        register,
+        unregister,
+    };
+}
@@ -0,0 +1,107 @@
+import * as alt from 'alt-server';
+import { ItemContainerOwner } from '../shared/types.js';
+import { useItemSyncManager } from './itemSyncManager.js';
+
+// The inventory keys every player currently has open
+const sessions: { [playerId: number]: string[] } = {};
+
+export function useItemSessionManager() {
+    const syncManager = useItemSyncManager();
+
+    /**
+     * Open an inventory for a player, ie. a stash or a vehicle trunk
+     *
+     * The player is added to the viewers of the inventory and receives every change made by other players
+     *
+     * Changes to the same inventory are always run one after another, no matter how many players have it open
+     *
+     * @param {alt.Player} player
+     * @param {ItemContainerOwner} owner
+     * @return {Promise<string>} The key of the inventory
+     */
+    async function open(player: alt.Player, owner: ItemContainerOwner): Promise<string> {
+        const key = await syncManager.subscribe(player, owner);
+        if (!sessions[player.id]) {
+            sessions[player.id] = [];
+        }
+
+        if (!sessions[player.id].includes(key)) {
+            sessions[player.id].push(key);
+        }
+
+        return key;
+    }
+
+    /**
+     * Close an inventory for a player, the player stops receiving its changes
+     *
+     * @param {alt.Player} player
+     * @param {string} key
+     */
+    function close(player: alt.Player, key: string) {
+        syncManager.unsubscribe(player, key);
+        if (!sessions[player.id]) {
+            return;
+        }
+
+        sessions[player.id] = sessions[player.id].filter((x) => x !== key);
+        if (sessions[player.id].length <= 0) {
+            delete sessions[player.id];
+        }
+    }
+
+    /**
+     * Close every inventory a player has open
+     *
+     * @param {alt.Player} player
+     */
+    function closeAll(player: alt.Player) {
+        for (let key of getOpen(player)) {
+            close(player, key);
+        }
+    }
+
+    /**
+     * Returns the keys of every inventory a player has open
+     *
+     * @param {alt.Player} player
+     * @return {string[]}
+     */
+    function getOpen(player: alt.Player): string[] {
+        return [...(sessions[player.id] ?? [])];
+    }
+
+    /**
+     * Returns every player that has an inventory open
+     *
+     * @param {string} key
+     * @return {alt.Player[]}
+     */
+    function getViewers(key: string): alt.Player[] {
+        return syncManager.getViewers(key);
+    }
+
+    /**
+     * Check if a player has an inventory open
+     *
+     * @param {alt.Player} player
+     * @param {string} key
+     * @return {boolean}
+     */
+    function isOpen(player: alt.Player, key: string): boolean {
+        return getOpen(player).includes(key);
+    }
+
+    return {
+        close,
+        closeAll,
+        getOpen,
+        getViewers,
+        isOpen,
+        open,
+    };
+}
+
+alt.on('playerDisconnect', (player: alt.Player) => {
+    delete sessions[player.id];
+});
@@ -0,0 +1,271 @@
+import * as alt from 'alt-server';
+import { useRebar } from '@Server/index.js';
+import { InventoryExtension, Item, ItemContainerOwner, ItemSyncDiff, ItemSyncFull } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+import { ItemManagerEvents } from '../shared/events.js';
+import { usePlayerItemManagerEvents } from './playerItemManagerEvents.js';
+import { useStorageItemManagerEvents } from './storageItemManagerEvents.js';
+import { useVehicleItemManagerEvents } from './vehicleItemManagerEvents.js';
+
+type Snapshot = { version: number; items: { [uid: string]: Item } };
+
+const Rebar = useRebar();
+
+// The last items sent for every inventory that has a player watching it
+const snapshots: { [key: string]: Snapshot } = {};
+const viewers: { [key: string]: alt.Player[] } = {};
+const ownKeys: { [playerId: number]: string } = {};
+
+/**
+ * Returns the inventory key of a player, returns `undefined` if the player has no character
+ *
+ * @param {alt.Player} player
+ * @return {(string | undefined)}
+ */
+function getPlayerKey(player: alt.Player): string | undefined {
+    const document = Rebar.document.character.useCharacter(player);
+    if (!document.isValid()) {
+        return undefined;
+    }
+
+    const key = `player:${document.get()._id}`;
+    ownKeys[player.id] = key;
+    return key;
+}
+
+/**
+ * Creates a snapshot of the items, keyed by uid
+ *
+ * @param {Item[]} items
+ * @param {number} version
+ * @return {Snapshot}
+ */
+function createSnapshot(items: Item[], version: number): Snapshot {
+    const snapshot: Snapshot = { version, items: {} };
+    for (let item of items) {
+        snapshot.items[item.uid] = item;
+    }
+
+    return snapshot;
+}
+
+/**
+ * Returns every valid player that should receive changes for an inventory
+ *
+ * @param {string} key
+ * @param {alt.Player} [owner]
+ * @return {alt.Player[]}
+ */
+function getRecipients(key: string, owner?: alt.Player): alt.Player[] {
+    const players = (viewers[key] ?? []).filter((x) => x.valid);
+    if (owner && owner.valid && !players.includes(owner)) {
+        players.push(owner);
+    }
+
+    return players;
+}
+
+/**
+ * Sends all items of an inventory to a player
+ *
+ * @param {alt.Player} player
+ * @param {string} key
+ */
+function sendFull(player: alt.Player, key: string) {
+    const snapshot = snapshots[key];
+    const payload: ItemSyncFull = { key, version: snapshot.version, items: Object.values(snapshot.items) };
+    player.emit(ItemManagerEvents.toClient.syncFull, payload);
+}
+
+/**
+ * Compares the items to the last snapshot, and sends the difference to every recipient
+ *
+ * @param {string} key
+ * @param {Item[]} items
+ * @param {alt.Player} [owner]
+ */
+function handleItemsUpdated(key: string, items: Item[], owner?: alt.Player) {
+    const recipients = getRecipients(key, owner);
+    if (recipients.length <= 0) {
+        delete snapshots[key];
+        return;
+    }
+
+    const snapshot = snapshots[key];
+    if (!snapshot) {
+        snapshots[key] = createSnapshot(items, 1);
+        for (let player of recipients) {
+            sendFull(player, key);
+        }
+
+        return;
+    }
+
+    const diff: ItemSyncDiff = { key, version: snapshot.version + 1, added: [], removed: [], changed: [] };
+    const newSnapshot = createSnapshot(items, diff.version);
+
+    for (let uid of Object.keys(newSnapshot.items)) {
+        if (!snapshot.items[uid]) {
+            diff.added.push(newSnapshot.items[uid]);
+            continue;
+        }
+
+        if (JSON.stringify(snapshot.items[uid]) !== JSON.stringify(newSnapshot.items[uid])) {
+            diff.changed.push(newSnapshot.items[uid]);
+        }
+    }
+
+    for (let uid of Object.keys(snapshot.items)) {
+        if (!newSnapshot.items[uid]) {
+            diff.removed.push(uid);
+        }
+    }
+
+    if (diff.added.length <= 0 && diff.removed.length <= 0 && diff.changed.length <= 0) {
+        return;
+    }
+
+    snapshots[key] = newSnapshot;
+    for (let player of recipients) {
+        player.emit(ItemManagerEvents.toClient.syncDiff, diff);
+    }
+}
+
+export function useItemSyncManager() {
+    /**
+     * Start sending the changes of an inventory to a player, and send all items right away
+     *
+     * The owner can be any manager with `getContainer`, ie. a storage or vehicle manager
+     *
+     * @param {alt.Player} player
+     * @param {ItemContainerOwner} owner
+     * @return {Promise<string>} The key of the inventory
+     */
+    async function subscribe(player: alt.Player, owner: ItemContainerOwner): Promise<string> {
+        const container = owner.getContainer();
+        if (!viewers[container.key]) {
+            viewers[container.key] = [];
+        }
+
+        if (!viewers[container.key].includes(player)) {
+            viewers[container.key].push(player);
+        }
+
+        if (!snapshots[container.key]) {
+            snapshots[container.key] = createSnapshot(await container.getItems(), 1);
+        }
+
+        sendFull(player, container.key);
+        return container.key;
+    }
+
+    /**
+     * Stop sending the changes of an inventory to a player
+     *
+     * @param {alt.Player} player
+     * @param {string} key
+     */
+    function unsubscribe(player: alt.Player, key: string) {
+        if (!viewers[key]) {
+            return;
+        }
+
+        viewers[key] = viewers[key].filter((x) => x !== player && x.valid);
+        if (viewers[key].length >= 1) {
+            return;
+        }
+
+        delete viewers[key];
+        if (!Object.values(ownKeys).includes(key)) {
+            delete snapshots[key];
+        }
+    }
+
+    /**
+     * Returns every player that is receiving the changes of an inventory, not including the owning player
+     *
+     * @param {string} key
+     * @return {alt.Player[]}
+     */
+    function getViewers(key: string): alt.Player[] {
+        return (viewers[key] ?? []).filter((x) => x.valid);
+    }
+
+    /**
+     * Send all items of an inventory to a player, uses the player's own inventory if no key is provided
+     *
+     * Players only receive inventories they own or are subscribed to
+     *
+     * @param {alt.Player} player
+     * @param {string} [key]
+     * @return {boolean}
+     */
+    function sync(player: alt.Player, key?: string): boolean {
+        const playerKey = getPlayerKey(player);
+        if (!key) {
+            key = playerKey;
+        }
+
+        if (!key) {
+            return false;
+        }
+
+        if (key === playerKey && !snapshots[key]) {
+            const items = Rebar.document.character.useCharacter(player).get<InventoryExtension>().items ?? [];
+            snapshots[key] = createSnapshot(items, 1);
+        }
+
+        if (!snapshots[key] || (key !== playerKey && !getViewers(key).includes(player))) {
+            return false;
+        }
+
+        sendFull(player, key);
+        return true;
+    }
+
+    return {
+        getViewers,
+        subscribe,
+        sync,
+        unsubscribe,
+    };
+}
+
+function init() {
+    const syncManager = useItemSyncManager();
+
+    usePlayerItemManagerEvents().onItemsUpdated((player, items) => {
+        const key = getPlayerKey(player);
+        if (key) {
+            handleItemsUpdated(key, items, player);
+        }
+    });
+
+    useStorageItemManagerEvents().onItemsUpdated((identifier, items) => {
+        handleItemsUpdated(`storage:${identifier}`, items);
+    });
+
+    useVehicleItemManagerEvents().onItemsUpdated((vehicle, items, compartment) => {
+        const document = Rebar.document.vehicle.useVehicle(vehicle).get();
+        if (document) {
+            handleItemsUpdated(`vehicle:${document._id}:${compartment}`, items);
+        }
+    });
+
+    alt.onClient(ItemManagerEvents.toServer.requestSync, (player: alt.Player, key?: string) => {
+        syncManager.sync(player, typeof key === 'string' ? key : undefined);
+    });
+
+    alt.on('playerDisconnect', (player: alt.Player) => {
+        for (let key of Object.keys(viewers)) {
+            syncManager.unsubscribe(player, key);
+        }
+
+        delete snapshots[ownKeys[player.id]];
+        delete ownKeys[player.id];
+    });
+}
+
+if (ItemManagerConfig.sync.enabled) {
+    init();
+}
@@ -0,0 +1,379 @@
+import * as alt from 'alt-server';
+import * as Utility from '@Shared/utility/index.js';
+import { Item, ItemErrorCode, ItemResult, TradeOffer } from '../shared/types.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { usePlayerItemManager } from './playerItemManager.js';
+import { useItemTradeManagerEventInvoker } from './itemTradeManagerEvents.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+type TradeSide = { player: alt.Player; offers: TradeOffer[]; confirmed: boolean };
+type TradeSession = { id: string; sides: TradeSide[]; revision: number };
+
+const sessions: { [id: string]: TradeSession } = {};
+const invoker = useItemTradeManagerEventInvoker();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Returns the trade session a player is currently part of
+ *
+ * @param {alt.Player} player
+ * @return {(TradeSession | undefined)}
+ */
+function findSession(player: alt.Player): TradeSession | undefined {
+    return Object.values(sessions).find((session) => session.sides.some((side) => side.player === player));
+}
+
+/**
+ * Removes the offered items from a list of items
+ *
+ * Returns the remaining items, and the items that leave the inventory with fresh positions
+ *
+ * @param {alt.Player} player
+ * @param {Item[]} items
+ * @param {TradeOffer[]} offers
+ * @return {ItemResult<{ items: Item[]; offered: Item[] }>} Fails if an offer is no longer valid
+ */
+function takeOffers(
+    player: alt.Player,
+    items: Item[],
+    offers: TradeOffer[],
+): ItemResult<{ items: Item[]; offered: Item[] }> {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+    const offered: Item[] = [];
+
+    for (let offer of offers) {
+        const item = items.find((x) => x.uid === offer.uid);
+        if (!item) {
+            return itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid: offer.uid });
+        }
+
+        const violatedRule = ruleManager.check(item, { action: 'trade', container: 'player', player });
+        if (violatedRule) {
+            return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
+        }
+
+        const result = itemArrayManager.removeQuantityFrom(offer.uid, offer.quantity, items);
+        if (result.success === false) {
+            return result;
+        }
+
+        items = result.items;
+
+        const offeredItem: Item = Utility.clone.objectData(item);
+        offeredItem.quantity = offer.quantity;
+        delete offeredItem.position;
+
+        if (offer.quantity < item.quantity) {
+            offeredItem.uid = Utility.uid.generate();
+        }
+
+        offered.push(offeredItem);
+    }
+
+    return { success: true, items, offered };
+}
+
+export function useItemTradeManager() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    /**
+     * Resets both confirmations, and notifies listeners that the trade changed
+     *
+     * Any swap still waiting for the inventories is cancelled, as it was confirmed with the old offers
+     *
+     * @param {TradeSession} session
+     */
+    function resetConfirmations(session: TradeSession) {
+        session.revision++;
+        for (let side of session.sides) {
+            side.confirmed = false;
+        }
+
+        invoker.invokeOnTradeUpdated(session.id, session.sides.map((side) => side.player));
+    }
+
+    /**
+     * Swaps the offered items between both players, as they were when both players confirmed
+     *
+     * Nothing is written unless both inventories can hold the items they receive
+     *
+     * Both inventories stay locked until they are saved. The swap is cancelled if the trade finished,
+     * or the offers changed, while waiting for the inventories.
+     *
+     * @param {TradeSession} session
+     * @return {Promise<ItemResult>}
+     */
+    async function complete(session: TradeSession): Promise<ItemResult> {
+        const revision = session.revision;
+        const offers = session.sides.map((side) => side.offers.map((offer) => ({ ...offer })));
+        const containers = session.sides.map((side) => usePlayerItemManager(side.player).getContainer());
+
+        const lockKeys = containers.reduce((keys, container) => [...keys, ...container.lockKeys], [] as string[]);
+        return lockManager.run(lockKeys, async () => {
+            if (sessions[session.id] !== session) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_TRADING));
+            }
+
+            if (session.revision !== revision || !session.sides.every((side) => side.confirmed)) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.TRADE_CHANGED));
+            }
+
+            const originalItems = await Promise.all(containers.map((container) => container.getItems()));
+
+            const taken: { items: Item[]; offered: Item[] }[] = [];
+            for (let i = 0; i < session.sides.length; i++) {
+                const result = takeOffers(session.sides[i].player, originalItems[i], offers[i]);
+                if (result.success === false) {
+                    resetConfirmations(session);
+                    return itemErrors.track(result);
+                }
+
+                taken.push(result);
+            }
+
+            const newItems: Item[][] = [];
+            const received: Item[][] = [];
+            for (let i = 0; i < session.sides.length; i++) {
+                const otherSide = taken[(i + 1) % session.sides.length];
+                let items = taken[i].items;
+
+                for (let item of otherSide.offered) {
+                    const result = itemArrayManager.addSpecificItem(item, items, containers[i].getOptions());
+                    if (result.success === false) {
+                        resetConfirmations(session);
+                        return itemErrors.track(result);
+                    }
+
+                    items = result.items;
+                }
+
+                newItems.push(items);
+                received.push(otherSide.offered);
+            }
+
+            try {
+                await containers[0].setItems(newItems[0]);
+            } catch (err) {
+                resetConfirmations(session);
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { key: containers[0].key }));
+            }
+
+            try {
+                await containers[1].setItems(newItems[1]);
+            } catch (err) {
+                try {
+                    await containers[0].setItems(originalItems[0]);
+                } catch (rollbackErr) {
+                    alt.logWarning(`[Item Trade] Failed to restore ${containers[0].key}, ${rollbackErr}`);
+                }
+
+                resetConfirmations(session);
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { key: containers[1].key }));
+            }
+
+            delete sessions[session.id];
+
+            for (let i = 0; i < containers.length; i++) {
+                for (let item of taken[i].offered) {
+                    containers[i].invokeOnItemRemoved(item.id, item.quantity);
+                }
+
+                for (let item of received[i]) {
+                    containers[i].invokeOnItemAdded(item.id, item.quantity);
+                }
+
+                containers[i].invokeOnItemsUpdated(newItems[i]);
+            }
+
+            invoker.invokeOnTradeCompleted(session.id, session.sides.map((side) => side.player), received);
+
+            return itemErrors.track({ success: true });
+        });
+    }
+
+    /**
+     * Start a trade between two players
+     *
+     * Returns the trade identifier, fails if one of the players is already trading
+     *
+     * @param {alt.Player} player
+     * @param {alt.Player} otherPlayer
+     * @return {ItemResult<{ id: string }>}
+     */
+    function start(player: alt.Player, otherPlayer: alt.Player): ItemResult<{ id: string }> {
+        if (player === otherPlayer) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.TRADE_WITH_SELF));
+        }
+
+        if (findSession(player) || findSession(otherPlayer)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ALREADY_TRADING));
+        }
+
+        const id = Utility.uid.generate();
+        sessions[id] = {
+            id,
+            revision: 0,
+            sides: [
+                { player, offers: [], confirmed: false },
+                { player: otherPlayer, offers: [], confirmed: false },
+            ],
+        };
+
+        invoker.invokeOnTradeUpdated(id, [player, otherPlayer]);
+        return itemErrors.track({ success: true, id });
+    }
+
+    /**
+     * Stage an item from the player's inventory in the trade
+     *
+     * Offering the same `uid` again replaces the quantity, and resets both confirmations
+     *
+     * @param {alt.Player} player
+     * @param {string} uid
+     * @param {number} quantity
+     * @return {ItemResult}
+     */
+    function offer(player: alt.Player, uid: string, quantity: number): ItemResult {
+        const session = findSession(player);
+        if (!session) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_TRADING));
+        }
+
+        const item = usePlayerItemManager(player).getByUid(uid);
+        if (!item) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
+        }
+
+        const violatedRule = ruleManager.check(item, { action: 'trade', container: 'player', player });
+        if (violatedRule) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule }));
+        }
+
+        if (!(quantity > 0)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.INVALID_QUANTITY, { quantity }));
+        }
+
+        if (item.quantity < quantity) {
+            return itemErrors.track(
+                itemErrors.fail(ItemErrorCode.INSUFFICIENT_QUANTITY, { uid, quantity, available: item.quantity }),
+            );
+        }
+
+        const side = session.sides.find((x) => x.player === player);
+        const index = side.offers.findIndex((x) => x.uid === uid);
+        if (index >= 0) {
+            side.offers[index].quantity = quantity;
+        } else {
+            side.offers.push({ uid, quantity });
+        }
+
+        resetConfirmations(session);
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Remove a staged item from the trade, and reset both confirmations
+     *
+     * @param {alt.Player} player
+     * @param {string} uid
+     * @return {ItemResult}
+     */
+    function retract(player: alt.Player, uid: string): ItemResult {
+        const session = findSession(player);
+        if (!session) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_TRADING));
+        }
+
+        const side = session.sides.find((x) => x.player === player);
+        const index = side.offers.findIndex((x) => x.uid === uid);
+        if (index <= -1) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_OFFERED, { uid }));
+        }
+
+        side.offers.splice(index, 1);
+        resetConfirmations(session);
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Confirm the current offers, once both players confirmed the items are swapped
+     *
+     * Fails if the swap failed, in which case both confirmations are reset
+     *
+     * @param {alt.Player} player
+     * @return {Promise<ItemResult>}
+     */
+    async function confirm(player: alt.Player): Promise<ItemResult> {
+        const session = findSession(player);
+        if (!session) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_TRADING));
+        }
+
+        const side = session.sides.find((x) => x.player === player);
+        side.confirmed = true;
+
+        if (!session.sides.every((x) => x.confirmed)) {
+            invoker.invokeOnTradeUpdated(session.id, session.sides.map((x) => x.player));
+            return itemErrors.track({ success: true });
+        }
+
+        return complete(session);
+    }
+
+    /**
+     * Cancel the trade the player is part of, nothing is exchanged
+     *
+     * @param {alt.Player} player
+     * @return {boolean}
+     */
+    function cancel(player: alt.Player): boolean {
+        const session = findSession(player);
+        if (!session) {
+            return false;
+        }
+
+        delete sessions[session.id];
+        invoker.invokeOnTradeCancelled(session.id, session.sides.map((side) => side.player));
+
+        return true;
+    }
+
+    /**
+     * Returns the offers and confirmations of the trade the player is part of
+     *
+     * @param {alt.Player} player
+     * @return {(Readonly<TradeSession> | undefined)}
+     */
+    function get(player: alt.Player): Readonly<TradeSession> | undefined {
+        const session = findSession(player);
+        if (!session) {
+            return undefined;
+        }
+
+        return {
+            id: session.id,
+            revision: session.revision,
+            sides: session.sides.map((side) => ({ ...side, offers: side.offers.map((x) => ({ ...x })) })),
+        };
+    }
+
+    return {
+        cancel,
+        confirm,
+        get,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        offer,
+        retract,
+        start,
+    };
+}
+
+alt.on('playerDisconnect', (player: alt.Player) => {
+    useItemTradeManager().cancel(player);
+});
@@ -0,0 +1,73 @@
+import * as alt from 'alt-server';
+import { Item } from '../shared/types.js';
+
+type TradeUpdatedCallback = (tradeId: string, players: alt.Player[]) => void;
+type TradeCompletedCallback = (tradeId: string, players: alt.Player[], items: Item[][]) => void;
+type TradeCancelledCallback = (tradeId: string, players: alt.Player[]) => void;
+
+const onTradeUpdatedCallbacks: TradeUpdatedCallback[] = [];
+const onTradeCompletedCallbacks: TradeCompletedCallback[] = [];
+const onTradeCancelledCallbacks: TradeCancelledCallback[] = [];
+
+export function useItemTradeManagerEventInvoker() {
+    function invokeOnTradeUpdated(tradeId: string, players: alt.Player[]) {
+        for (let cb of onTradeUpdatedCallbacks) {
+            cb(tradeId, players);
+        }
+    }
+
+    function invokeOnTradeCompleted(tradeId: string, players: alt.Player[], items: Item[][]) {
+        for (let cb of onTradeCompletedCallbacks) {
+            cb(tradeId, players, items);
+        }
+    }
+
+    function invokeOnTradeCancelled(tradeId: string, players: alt.Player[]) {
+        for (let cb of onTradeCancelledCallbacks) {
+            cb(tradeId, players);
+        }
+    }
+
+    return {
+        invokeOnTradeCancelled,
+        invokeOnTradeCompleted,
+        invokeOnTradeUpdated,
+    };
+}
+
+export function useItemTradeManagerEvents() {
+    /**
+     * Invokes a callback whenever an offer or confirmation in a trade changes
+     *
+     * @param {TradeUpdatedCallback} cb
+     */
+    function onTradeUpdated(cb: TradeUpdatedCallback) {
+        onTradeUpdatedCallbacks.push(cb);
+    }
+
+    /**
+     * Invokes a callback when both players confirmed and the items were swapped
+     *
+     * Items are the items each player received, in the same order as the players
+     *
+     * @param {TradeCompletedCallback} cb
+     */
+    function onTradeCompleted(cb: TradeCompletedCallback) {
+        onTradeCompletedCallbacks.push(cb);
+    }
+
+    /**
+     * Invokes a callback when a trade is cancelled, or a player disconnects during a trade
+     *
+     * @param {TradeCancelledCallback} cb
+     */
+    function onTradeCancelled(cb: TradeCancelledCallback) {
+        onTradeCancelledCallbacks.push(cb);
+    }
+
+    return {
+        onTradeCancelled,
+        onTradeCompleted,
+        onTradeUpdated,
+    };
+}
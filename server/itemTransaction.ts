@@ -0,0 +1,350 @@
+import * as alt from 'alt-server';
+import * as Utility from '@Shared/utility/index.js';
+import {
+    AddOptions,
+    Item,
+    ItemContainer,
+    ItemContainerOwner,
+    ItemErrorCode,
+    ItemRemoveOrder,
+    ItemResult,
+} from '../shared/types.js';
+import { ItemIDs } from '../shared/ignoreItemIds.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+type TransactionChange = { id: string; quantity: number };
+
+type TransactionStepResult = ItemResult<{ items: Item[]; added?: TransactionChange; removed?: TransactionChange }>;
+
+type TransactionStep = {
+    container: ItemContainer;
+    apply: (items: Item[]) => TransactionStepResult;
+};
+
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Restores the items of an inventory after a failed commit, a failed restore is only logged
+ *
+ * @param {ItemContainer} container
+ * @param {Item[]} items
+ * @return {Promise<void>}
+ */
+async function restore(container: ItemContainer, items: Item[]): Promise<void> {
+    try {
+        await container.setItems(items);
+    } catch (err) {
+        alt.logWarning(`[Item Transaction] Failed to restore ${container.key}, ${err}`);
+    }
+}
+
+/**
+ * Queues changes against one or more inventories, and applies all of them at once with `commit`
+ *
+ * Works with any manager from `usePlayerItemManager`, `useVehicleItemManager`, `useStorageItemManager`,
+ * and `useContainerItemManager`
+ *
+ * Nothing is written unless every change succeeds, every inventory is saved once and invokes `onItemsUpdated` once
+ *
+ * @export
+ * @return
+ */
+export function useItemTransaction() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    let steps: TransactionStep[] = [];
+
+    /**
+     * Checks the item rules for adding the item to the container
+     *
+     * @param {ItemContainer} container
+     * @param {ItemIDs} id
+     * @return {ItemResult}
+     */
+    function checkRules(container: ItemContainer, id: ItemIDs): ItemResult {
+        const baseItem = itemManager.getBaseItem(id);
+        if (!baseItem) {
+            return itemErrors.fail(ItemErrorCode.BASE_ITEM_NOT_FOUND, { id });
+        }
+
+        const violatedRule = ruleManager.check(
+            baseItem,
+            { action: 'add', container: container.type, compartment: container.compartment },
+            container.rules,
+        );
+
+        if (!violatedRule) {
+            return { success: true };
+        }
+
+        return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
+    }
+
+    /**
+     * Queues a change for the inventory of the owner
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {(container: ItemContainer, items: Item[]) => TransactionStepResult} apply
+     */
+    function queue(
+        owner: ItemContainerOwner,
+        apply: (container: ItemContainer, items: Item[]) => TransactionStepResult,
+    ) {
+        const container = owner.getContainer();
+        steps.push({ container, apply: (items) => apply(container, items) });
+    }
+
+    /**
+     * Finds a similar item based on `id` or creates a new item and adds it to the inventory
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @param {AddOptions} [addOptions={}]
+     */
+    function add(owner: ItemContainerOwner, id: ItemIDs, quantity: number, addOptions: AddOptions = {}) {
+        queue(owner, (container, items) => {
+            const ruleResult = checkRules(container, id);
+            if (ruleResult.success === false) {
+                return ruleResult;
+            }
+
+            const result = itemArrayManager.add(id, quantity, items, { ...container.getOptions(), ...addOptions });
+            if (result.success === false) {
+                return result;
+            }
+
+            return { success: true, items: result.items, added: { id, quantity } };
+        });
+    }
+
+    /**
+     * Adds a specific item with all its data to the inventory
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {Item} item
+     * @param {AddOptions} [addOptions={}]
+     */
+    function addSpecificItem(owner: ItemContainerOwner, item: Item, addOptions: AddOptions = {}) {
+        queue(owner, (container, items) => {
+            const ruleResult = checkRules(container, item.id as ItemIDs);
+            if (ruleResult.success === false) {
+                return ruleResult;
+            }
+
+            const result = itemArrayManager.addSpecificItem(item, items, { ...container.getOptions(), ...addOptions });
+            if (result.success === false) {
+                return result;
+            }
+
+            return { success: true, items: result.items, added: { id: item.id, quantity: item.quantity } };
+        });
+    }
+
+    /**
+     * Remove a quantity of items by `id` across multiple stacks
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @param {ItemRemoveOrder} [order] Which stacks are drained first, uses the configured order if not provided
+     */
+    function remove(owner: ItemContainerOwner, id: ItemIDs, quantity: number, order?: ItemRemoveOrder) {
+        queue(owner, (container, items) => {
+            const result = itemArrayManager.removeById(id, quantity, items, order);
+            if (result.success === false) {
+                return result;
+            }
+
+            return { success: true, items: result.items, removed: { id, quantity } };
+        });
+    }
+
+    /**
+     * Remove a quantity of items from a specific item stack based on `uid`
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {string} uid
+     * @param {number} quantity
+     */
+    function removeQuantityFrom(owner: ItemContainerOwner, uid: string, quantity: number) {
+        queue(owner, (container, items) => {
+            const item = itemArrayManager.getByUid(uid, items);
+            const result = itemArrayManager.removeQuantityFrom(uid, quantity, items);
+            if (result.success === false) {
+                return result;
+            }
+
+            return { success: true, items: result.items, removed: { id: item.id, quantity } };
+        });
+    }
+
+    /**
+     * Stack two items together and leave remaining if stack is too large
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {string} uidToStackOn
+     * @param {string} uidToStack
+     */
+    function stack(owner: ItemContainerOwner, uidToStackOn: string, uidToStack: string) {
+        queue(owner, (container, items) => itemArrayManager.stack(uidToStackOn, uidToStack, items));
+    }
+
+    /**
+     * Split an item into two items
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {string} uid
+     * @param {number} amountToSplit
+     * @param {AddOptions} [options={}]
+     */
+    function split(owner: ItemContainerOwner, uid: string, amountToSplit: number, options: AddOptions = {}) {
+        queue(owner, (container, items) => {
+            return itemArrayManager.split(uid, amountToSplit, items, { ...container.getOptions(), ...options });
+        });
+    }
+
+    /**
+     * Move an item to a new position in the inventory grid, and optionally rotate it
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {string} uid
+     * @param {{ x: number; y: number }} position
+     * @param {number} [rotation]
+     */
+    function move(owner: ItemContainerOwner, uid: string, position: { x: number; y: number }, rotation?: number) {
+        queue(owner, (container, items) => {
+            return itemArrayManager.move(uid, position, rotation, items, container.getOptions());
+        });
+    }
+
+    /**
+     * Updates the data set for a single item, overwriting any data inside.
+     *
+     * @param {ItemContainerOwner} owner
+     * @param {string} uid
+     * @param {Partial<Omit<Item, '_id'>>} data
+     */
+    function update(owner: ItemContainerOwner, uid: string, data: Partial<Omit<Item, '_id'>>) {
+        queue(owner, (container, items) => itemArrayManager.update(uid, data, items));
+    }
+
+    /**
+     * Applies every queued change in order, and saves every inventory once
+     *
+     * All inventories are locked until the transaction is saved. Nothing is written if any change fails,
+     * and already saved inventories are restored if a later inventory could not be saved.
+     *
+     * The queue is cleared, so the transaction can be reused afterwards
+     *
+     * @return {Promise<ItemResult>}
+     */
+    async function commit(): Promise<ItemResult> {
+        const queuedSteps = steps;
+        steps = [];
+
+        const containers: { [key: string]: ItemContainer } = {};
+        for (let step of queuedSteps) {
+            containers[step.container.key] = step.container;
+        }
+
+        // Sorted so a parent inventory is saved before any container item inside of it
+        const keys = Object.keys(containers).sort();
+        const lockKeys = keys.reduce((result, key) => [...result, ...containers[key].lockKeys], [] as string[]);
+
+        return lockManager.run(lockKeys, async () => {
+            const originalItems: { [key: string]: Item[] } = {};
+            const newItems: { [key: string]: Item[] } = {};
+            for (let key of keys) {
+                originalItems[key] = await containers[key].getItems();
+                newItems[key] = Utility.clone.arrayData(originalItems[key]);
+            }
+
+            const added: { key: string; change: TransactionChange }[] = [];
+            const removed: { key: string; change: TransactionChange }[] = [];
+            for (let step of queuedSteps) {
+                const key = step.container.key;
+                const result = step.apply(newItems[key]);
+                if (result.success === false) {
+                    return itemErrors.track(result);
+                }
+
+                newItems[key] = result.items;
+
+                if (result.added) {
+                    added.push({ key, change: result.added });
+                }
+
+                if (result.removed) {
+                    removed.push({ key, change: result.removed });
+                }
+            }
+
+            for (let key of keys) {
+                const result = itemArrayManager.verify(newItems[key], containers[key].getOptions());
+                if (result.success === false) {
+                    return itemErrors.track(result);
+                }
+            }
+
+            const savedKeys: string[] = [];
+            for (let key of keys) {
+                try {
+                    await containers[key].setItems(newItems[key]);
+                    savedKeys.push(key);
+                } catch (err) {
+                    for (let savedKey of savedKeys.reverse()) {
+                        await restore(containers[savedKey], originalItems[savedKey]);
+                    }
+
+                    return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { key }));
+                }
+            }
+
+            for (let { key, change } of removed) {
+                containers[key].invokeOnItemRemoved(change.id, change.quantity);
+            }
+
+            for (let { key, change } of added) {
+                containers[key].invokeOnItemAdded(change.id, change.quantity);
+            }
+
+            for (let key of keys) {
+                containers[key].invokeOnItemsUpdated(newItems[key]);
+            }
+
+            return itemErrors.track({ success: true });
+        });
+    }
+
+    /**
+     * Returns the amount of queued changes
+     *
+     * @return {number}
+     */
+    function getSize(): number {
+        return steps.length;
+    }
+
+    return {
+        add,
+        addSpecificItem,
+        commit,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        getSize,
+        move,
+        remove,
+        removeQuantityFrom,
+        split,
+        stack,
+        update,
+    };
+}
@@ -0,0 +1,147 @@
+import * as alt from 'alt-server';
+import * as Utility from '@Shared/utility/index.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { Item, ItemContainer, ItemContainerOwner, ItemErrorCode, ItemResult } from '../shared/types.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Restores the items of an inventory after a failed transfer, a failed restore is only logged
+ *
+ * @param {ItemContainer} container
+ * @param {Item[]} items
+ * @return {Promise<void>}
+ */
+async function restore(container: ItemContainer, items: Item[]): Promise<void> {
+    try {
+        await container.setItems(items);
+    } catch (err) {
+        alt.logWarning(`[Item Transfer] Failed to restore ${container.key}, ${err}`);
+    }
+}
+
+export function useItemTransferManager() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    /**
+     * Move an item, or part of a stack, from one inventory to another
+     *
+     * Works with any manager from `usePlayerItemManager`, `useVehicleItemManager`, `useStorageItemManager`,
+     * and `useContainerItemManager`
+     *
+     * The target is validated before anything is written, and the target is restored if the source could not be saved
+     *
+     * Item rules are checked against the target inventory, ie. `noStorage` items can only move into player inventories
+     *
+     * When only part of a stack is moved, the moved items receive a new `uid`
+     *
+     * Both inventories are locked until the transfer is saved
+     *
+     * @param {ItemContainerOwner} from
+     * @param {ItemContainerOwner} to
+     * @param {string} uid
+     * @param {number} [quantity] Moves the whole stack if not provided
+     * @param {{ x: number; y: number }} [position] Uses the first free position if not provided
+     * @return {Promise<ItemResult>}
+     */
+    async function transfer(
+        from: ItemContainerOwner,
+        to: ItemContainerOwner,
+        uid: string,
+        quantity?: number,
+        position?: { x: number; y: number },
+    ): Promise<ItemResult> {
+        const source = from.getContainer();
+        const target = to.getContainer();
+        if (source.key === target.key) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.SAME_CONTAINER, { key: source.key }));
+        }
+
+        // A container item cannot be moved into itself, or into a container inside of it
+        const itemKey = `${source.key}:${uid}`;
+        if (target.key === itemKey || target.key.startsWith(`${itemKey}:`)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.CONTAINER_RECURSION, { uid }));
+        }
+
+        return lockManager.run([...source.lockKeys, ...target.lockKeys], async () => {
+            const sourceItems = await source.getItems();
+            const item = sourceItems.find((x) => x.uid === uid);
+            if (!item) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
+            }
+
+            const amount = typeof quantity === 'undefined' ? item.quantity : quantity;
+            const violatedRule = ruleManager.check(
+                item,
+                { action: 'transfer', container: target.type, compartment: target.compartment },
+                target.rules,
+            );
+            if (violatedRule) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule }));
+            }
+
+            let sourceResult = itemArrayManager.removeQuantityFrom(uid, amount, sourceItems);
+            if (sourceResult.success === false) {
+                return itemErrors.track(sourceResult);
+            }
+
+            const movedItem: Item = Utility.clone.objectData(item);
+            movedItem.quantity = amount;
+            delete movedItem.position;
+
+            if (amount < item.quantity) {
+                movedItem.uid = Utility.uid.generate();
+            }
+
+            if (position) {
+                movedItem.position = { x: position.x, y: position.y };
+            }
+
+            const targetItems = await target.getItems();
+            const targetResult = itemArrayManager.addSpecificItem(movedItem, targetItems, target.getOptions());
+            if (targetResult.success === false) {
+                return itemErrors.track(targetResult);
+            }
+
+            try {
+                await target.setItems(targetResult.items);
+            } catch (err) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { key: target.key }));
+            }
+
+            // The target can be a container item inside of the source, which changed the source items
+            if (target.key.startsWith(`${source.key}:`)) {
+                sourceResult = itemArrayManager.removeQuantityFrom(uid, amount, await source.getItems());
+                if (sourceResult.success === false) {
+                    await restore(target, targetItems);
+                    return itemErrors.track(sourceResult);
+                }
+            }
+
+            try {
+                await source.setItems(sourceResult.items);
+            } catch (err) {
+                await restore(target, targetItems);
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.SAVE_FAILED, { key: source.key }));
+            }
+
+            source.invokeOnItemRemoved(item.id, amount);
+            source.invokeOnItemsUpdated(sourceResult.items);
+            target.invokeOnItemAdded(item.id, amount);
+            target.invokeOnItemsUpdated(targetResult.items);
+
+            return itemErrors.track({ success: true });
+        });
+    }
+
+    return {
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        transfer,
+    };
+}
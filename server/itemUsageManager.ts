@@ -1,7 +1,8 @@
 import * as alt from 'alt-server';
-import { Item } from '../shared/types.js';
+import { Item, ItemErrorCode, ItemResult } from '../shared/types.js';
 import { useItemManager } from './itemManager.js';
 import { ItemIDs } from '../shared/ignoreItemIds.js';
+import { useItemErrors } from './itemErrors.js';
 
 type ItemUseCallback = (player: alt.Player, item: Item) => void;
 
@@ -9,41 +10,34 @@ const callbacks: { [id: string]: ItemUseCallback[] } = {};
 const itemManger = useItemManager();
 
 export function useItemUsageManager() {
-    let errorMessage = '';
+    const itemErrors = useItemErrors();
 
     /**
      * Invoke an event for the given item
      *
      * @param {alt.Player} player
      * @param {Item} item
-     * @return
+     * @return {ItemResult}
      */
-    function invoke(player: alt.Player, item: Item) {
+    function invoke(player: alt.Player, item: Item): ItemResult {
         const baseItem = itemManger.getBaseItem(item.id as ItemIDs);
         if (!baseItem) {
-            errorMessage = 'Base item for event usage does not exist';
-            return false;
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.BASE_ITEM_NOT_FOUND, { id: item.id }));
         }
 
-        if (!baseItem.useEventName) {
-            errorMessage = 'Base item does not have a usage callback';
-        }
-
-        if (!callbacks[baseItem.useEventName]) {
-            errorMessage = 'Item does not have any registered usage callbacks';
-            return false;
+        if (!baseItem.useEventName || !callbacks[baseItem.useEventName]) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.NO_USAGE_EVENT, { id: item.id }));
         }
 
         if (typeof item.durability !== 'undefined' && item.durability <= 0) {
-            errorMessage = 'Item is broken';
-            return false;
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.BROKEN, { uid: item.uid }));
         }
 
         for (let cb of callbacks[baseItem.useEventName]) {
             cb(player, item);
         }
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -60,12 +54,9 @@ export function useItemUsageManager() {
         callbacks[useEventName].push(callback);
     }
 
-    function getErrorMessage() {
-        return errorMessage;
-    }
-
     return {
-        getErrorMessage,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
         on,
         invoke,
     };
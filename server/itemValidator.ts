@@ -0,0 +1,169 @@
+import { BaseItem, ItemValidationError } from '../shared/types.js';
+
+/**
+ * Check if a value is a finite number
+ *
+ * @param {unknown} value
+ * @return {boolean}
+ */
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check if a value is a string that is not empty
+ *
+ * @param {unknown} value
+ * @return {boolean}
+ */
+function isFilledString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+export function useItemValidator() {
+    /**
+     * Validate an unknown value against the shape of a `BaseItem`
+     *
+     * Returns every violation found, an empty array means the item is valid
+     *
+     * @param {unknown} item
+     * @return {ItemValidationError[]}
+     */
+    function validate(item: unknown): ItemValidationError[] {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            return [{ field: 'item', message: 'Item must be an object' }];
+        }
+
+        const value = item as Partial<BaseItem>;
+        const errors: ItemValidationError[] = [];
+
+        if (!isFilledString(value.id)) {
+            errors.push({ field: 'id', message: 'Id must be a non-empty string' });
+        }
+
+        if (!isFilledString(value.name)) {
+            errors.push({ field: 'name', message: 'Name must be a non-empty string' });
+        }
+
+        if (typeof value.desc !== 'string') {
+            errors.push({ field: 'desc', message: 'Description must be a string' });
+        }
+
+        if (typeof value.icon !== 'string') {
+            errors.push({ field: 'icon', message: 'Icon must be a string' });
+        }
+
+        if (!Number.isInteger(value.width) || value.width <= 0) {
+            errors.push({ field: 'width', message: 'Width must be a whole number greater than zero' });
+        }
+
+        if (!Number.isInteger(value.height) || value.height <= 0) {
+            errors.push({ field: 'height', message: 'Height must be a whole number greater than zero' });
+        }
+
+        if (!isNumber(value.weight) || value.weight < 0) {
+            errors.push({ field: 'weight', message: 'Weight must be a number of zero or more' });
+        }
+
+        if (!Number.isInteger(value.maxStack) || value.maxStack < 1) {
+            errors.push({ field: 'maxStack', message: 'Max stack must be a whole number of one or more' });
+        }
+
+        if (!isNumber(value.rotation)) {
+            errors.push({ field: 'rotation', message: 'Rotation must be a number' });
+        }
+
+        if (typeof value.position !== 'undefined') {
+            const isValidPosition =
+                value.position &&
+                Number.isInteger(value.position.x) &&
+                Number.isInteger(value.position.y) &&
+                value.position.x >= 0 &&
+                value.position.y >= 0;
+
+            if (!isValidPosition) {
+                errors.push({ field: 'position', message: 'Position must have whole numbers of zero or more' });
+            }
+        }
+
+        if (typeof value.decay !== 'undefined' && (!isNumber(value.decay) || value.decay < 0)) {
+            errors.push({ field: 'decay', message: 'Decay must be a number of zero or more' });
+        }
+
+        if (typeof value.durability !== 'undefined' && (!isNumber(value.durability) || value.durability < 0)) {
+            errors.push({ field: 'durability', message: 'Durability must be a number of zero or more' });
+        }
+
+        if (typeof value.useEventName !== 'undefined' && !isFilledString(value.useEventName)) {
+            errors.push({ field: 'useEventName', message: 'Use event name must be a non-empty string' });
+        }
+
+        if (typeof value.category !== 'undefined' && !isFilledString(value.category)) {
+            errors.push({ field: 'category', message: 'Category must be a non-empty string' });
+        }
+
+        if (typeof value.tags !== 'undefined') {
+            if (!Array.isArray(value.tags) || !value.tags.every((tag) => isFilledString(tag))) {
+                errors.push({ field: 'tags', message: 'Tags must be a list of non-empty strings' });
+            }
+        }
+
+        if (typeof value.equipSlots !== 'undefined') {
+            if (!Array.isArray(value.equipSlots) || !value.equipSlots.every((slot) => isFilledString(slot))) {
+                errors.push({ field: 'equipSlots', message: 'Equip slots must be a list of non-empty strings' });
+            }
+        }
+
+        if (typeof value.container !== 'undefined') {
+            const maxCells = value.container?.maxCells;
+            const isValidCells =
+                maxCells &&
+                Number.isInteger(maxCells.width) &&
+                Number.isInteger(maxCells.height) &&
+                maxCells.width > 0 &&
+                maxCells.height > 0;
+
+            if (!isValidCells) {
+                errors.push({ field: 'container.maxCells', message: 'Max cells must have whole numbers above zero' });
+            }
+
+            const maxWeight = value.container?.maxWeight;
+            if (typeof maxWeight !== 'undefined' && (!isNumber(maxWeight) || maxWeight < 0)) {
+                errors.push({ field: 'container.maxWeight', message: 'Max weight must be a number of zero or more' });
+            }
+
+            if (value.maxStack !== 1) {
+                errors.push({ field: 'container', message: 'Container items must have a max stack of one' });
+            }
+        }
+
+        if (typeof value.rules !== 'undefined') {
+            if (!value.rules || typeof value.rules !== 'object' || Array.isArray(value.rules)) {
+                errors.push({ field: 'rules', message: 'Rules must be an object' });
+            } else {
+                for (let rule of Object.keys(value.rules)) {
+                    if (typeof value.rules[rule] !== 'boolean') {
+                        errors.push({ field: `rules.${rule}`, message: 'Rule must be true or false' });
+                    }
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Turns a list of validation errors into a single readable line
+     *
+     * @param {ItemValidationError[]} errors
+     * @return {string}
+     */
+    function format(errors: ItemValidationError[]): string {
+        return errors.map((error) => `${error.field}: ${error.message}`).join(', ');
+    }
+
+    return {
+        format,
+        validate,
+    };
+}
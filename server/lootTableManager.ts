@@ -0,0 +1,284 @@
+import * as alt from 'alt-server';
+import * as Utility from '@Shared/utility/index.js';
+import { ItemContainerOwner, ItemErrorCode, ItemResult, LootDrop, LootEntry, LootTable } from '../shared/types.js';
+import { useItemManager } from './itemManager.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
+import { usePlayerItemManager } from './playerItemManager.js';
+import { useStorageItemManager } from './storageItemManager.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+
+// Prevents tables that include each other from rolling forever
+const MAX_TABLE_DEPTH = 8;
+
+const tables: { [id: string]: LootTable } = {};
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Creates a random number generator that returns numbers between 0 and 1
+ *
+ * The same seed always returns the same sequence of numbers, no seed uses `Math.random`
+ *
+ * @param {(number | string)} [seed]
+ * @return {() => number}
+ */
+function createRandom(seed?: number | string): () => number {
+    if (typeof seed === 'undefined') {
+        return Math.random;
+    }
+
+    let state = 0;
+    if (typeof seed === 'string') {
+        for (let i = 0; i < seed.length; i++) {
+            state = Math.imul(31, state) + seed.charCodeAt(i);
+        }
+    } else {
+        state = seed;
+    }
+
+    state = state >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Returns a whole number between min and max, both inclusive
+ *
+ * @param {() => number} random
+ * @param {number} min
+ * @param {number} max
+ * @return {number}
+ */
+function randomBetween(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+export function useLootTableManager() {
+    const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+
+    /**
+     * Adds the drops of a single entry to the list of drops
+     *
+     * @param {LootEntry} entry
+     * @param {() => number} random
+     * @param {LootDrop[]} drops
+     * @param {number} depth
+     */
+    function rollEntry(entry: LootEntry, random: () => number, drops: LootDrop[], depth: number) {
+        const min = entry.min ?? 1;
+        const max = Math.max(min, entry.max ?? min);
+        const amount = randomBetween(random, min, max);
+        if (amount <= 0) {
+            return;
+        }
+
+        if (entry.table) {
+            for (let i = 0; i < amount; i++) {
+                rollTable(entry.table, random, drops, depth + 1);
+            }
+
+            return;
+        }
+
+        if (!entry.id) {
+            return;
+        }
+
+        const existingDrop = entry.data ? undefined : drops.find((x) => x.id === entry.id && !x.data);
+        if (existingDrop) {
+            existingDrop.quantity += amount;
+            return;
+        }
+
+        const drop: LootDrop = { id: entry.id, quantity: amount };
+        if (entry.data) {
+            drop.data = Utility.clone.objectData(entry.data);
+        }
+
+        drops.push(drop);
+    }
+
+    /**
+     * Rolls all guaranteed entries, and picks weighted entries from a table
+     *
+     * @param {string} tableId
+     * @param {() => number} random
+     * @param {LootDrop[]} drops
+     * @param {number} depth
+     */
+    function rollTable(tableId: string, random: () => number, drops: LootDrop[], depth: number) {
+        const table = tables[tableId];
+        if (!table || depth > MAX_TABLE_DEPTH) {
+            return;
+        }
+
+        for (let entry of table.guaranteed ?? []) {
+            rollEntry(entry, random, drops, depth);
+        }
+
+        const totalWeight = table.entries.reduce((sum, entry) => sum + Math.max(0, entry.weight), 0);
+        if (totalWeight <= 0) {
+            return;
+        }
+
+        const rolls =
+            typeof table.rolls === 'object'
+                ? randomBetween(random, table.rolls.min, table.rolls.max)
+                : (table.rolls ?? 1);
+
+        for (let i = 0; i < rolls; i++) {
+            let pick = random() * totalWeight;
+            for (let entry of table.entries) {
+                pick -= Math.max(0, entry.weight);
+                if (pick < 0) {
+                    rollEntry(entry, random, drops, depth);
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Register a loot table, registering an existing table id overwrites the table
+     *
+     * @param {LootTable} table
+     */
+    function register(table: LootTable) {
+        tables[table.id] = Utility.clone.objectData(table);
+    }
+
+    /**
+     * Remove a registered loot table
+     *
+     * @param {string} id
+     * @return {boolean}
+     */
+    function unregister(id: string) {
+        if (!tables[id]) {
+            return false;
+        }
+
+        delete tables[id];
+        return true;
+    }
+
+    /**
+     * Returns a loot table by id, returns `undefined` if the table does not exist
+     *
+     * @param {string} id
+     * @return {(Readonly<LootTable> | undefined)}
+     */
+    function get(id: string): Readonly<LootTable> | undefined {
+        return tables[id] ? Utility.clone.objectData<LootTable>(tables[id]) : undefined;
+    }
+
+    /**
+     * Roll a loot table, and return the items that dropped
+     *
+     * Rolling with the same seed always returns the same drops
+     *
+     * @param {string} tableId
+     * @param {(number | string)} [seed]
+     * @return {LootDrop[]}
+     */
+    function roll(tableId: string, seed?: number | string): LootDrop[] {
+        const drops: LootDrop[] = [];
+        rollTable(tableId, createRandom(seed), drops, 0);
+        return drops;
+    }
+
+    /**
+     * Roll a loot table, and add the drops straight into an inventory
+     *
+     * The target can be a player, a storage identifier, or any manager with `getContainer`
+     *
+     * Drops that do not fit, or are not allowed in the inventory, are skipped. All other drops are saved at once.
+     *
+     * @param {string} tableId
+     * @param {(alt.Player | string | ItemContainerOwner)} target
+     * @param {(number | string)} [seed]
+     * @return {Promise<ItemResult<{ added: LootDrop[]; skipped: LootDrop[] }>>}
+     */
+    async function insert(
+        tableId: string,
+        target: alt.Player | string | ItemContainerOwner,
+        seed?: number | string,
+    ): Promise<ItemResult<{ added: LootDrop[]; skipped: LootDrop[] }>> {
+        if (!tables[tableId]) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.LOOT_TABLE_NOT_FOUND, { tableId }));
+        }
+
+        let owner: ItemContainerOwner;
+        if (target instanceof alt.Player) {
+            owner = usePlayerItemManager(target);
+        } else if (typeof target === 'string') {
+            owner = await useStorageItemManager(target);
+        } else {
+            owner = target;
+        }
+
+        const container = owner.getContainer();
+        return lockManager.run(container.lockKeys, async () => {
+            let items = await container.getItems();
+            const options = container.getOptions();
+
+            const ruleContext = {
+                action: 'add' as const,
+                container: container.type,
+                compartment: container.compartment,
+            };
+            const added: LootDrop[] = [];
+            const skipped: LootDrop[] = [];
+
+            for (let drop of roll(tableId, seed)) {
+                const baseItem = itemManager.getBaseItem(drop.id);
+                if (!baseItem || ruleManager.check(baseItem, ruleContext, container.rules)) {
+                    skipped.push(drop);
+                    continue;
+                }
+
+                const result = itemArrayManager.add(drop.id, drop.quantity, items, { ...options, data: drop.data });
+                if (result.success === false) {
+                    skipped.push(drop);
+                    continue;
+                }
+
+                items = result.items;
+                added.push(drop);
+            }
+
+            if (added.length <= 0) {
+                return itemErrors.track({ success: true, added, skipped });
+            }
+
+            await container.setItems(items);
+
+            for (let drop of added) {
+                container.invokeOnItemAdded(drop.id, drop.quantity);
+            }
+
+            container.invokeOnItemsUpdated(items);
+            return itemErrors.track({ success: true, added, skipped });
+        });
+    }
+
+    return {
+        get,
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        insert,
+        register,
+        roll,
+        unregister,
+    };
+}
@@ -0,0 +1,203 @@
+import * as alt from 'alt-server';
+import { useRebar } from '@Server/index.js';
+import * as Utility from '@Shared/utility/index.js';
+import { EquipmentExtension, InventoryExtension, Item, ItemErrorCode, ItemResult } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+import { ItemIDs } from '../shared/ignoreItemIds.js';
+import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { usePlayerItemManager } from './playerItemManager.js';
+import { usePlayerEquipmentManagerEventInvoker } from './playerEquipmentManagerEvents.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+import { useItemLocaleManager } from './itemLocaleManager.js';
+
+const Rebar = useRebar();
+const invoker = usePlayerEquipmentManagerEventInvoker();
+const itemManager = useItemManager();
+const localeManager = useItemLocaleManager();
+const lockManager = useItemLockManager();
+
+/**
+ * Manages the equipment slots of a player, equipped items are stored on the character next to the inventory grid.
+ *
+ * The inventory grid is saved through the player item manager, so hotbar bindings and item events stay in sync.
+ *
+ * @param {alt.Player} player - The player whose equipment is being managed.
+ * @returns {Object} An object containing methods to equip and unequip items.
+ */
+export function usePlayerEquipmentManager(player: alt.Player) {
+    const document = Rebar.document.character.useCharacter(player);
+    const itemArrayManager = useItemArrayManager();
+    const itemManagerForPlayer = usePlayerItemManager(player);
+    const itemErrors = useItemErrors();
+    const container = itemManagerForPlayer.getContainer();
+
+    /**
+     * Returns the slots an item can be equipped in, uses the base item so definition changes apply
+     *
+     * @param {Readonly<Item>} item
+     * @return {string[]}
+     */
+    function getAllowedSlots(item: Readonly<Item>): string[] {
+        return itemManager.getBaseItem(item.id as ItemIDs)?.equipSlots ?? item.equipSlots ?? [];
+    }
+
+    /**
+     * Writes the equipment, and then the inventory grid through the player item manager.
+     *
+     * Hotbar bindings to items that left the grid are removed with the grid.
+     *
+     * @param {Item[]} items - The items in the inventory grid.
+     * @param {{ [slot: string]: Item }} equipment - The equipped items.
+     */
+    async function save(items: Item[], equipment: { [slot: string]: Item }) {
+        await document.set<EquipmentExtension>('equipment', equipment);
+        await container.setItems(items);
+        container.invokeOnItemsUpdated(items);
+    }
+
+    /**
+     * Equip an item from the inventory grid into a slot.
+     *
+     * If the slot already has an item, that item is moved back into the grid.
+     *
+     * Saves to database
+     *
+     * @param {string} uid - The uid of the item in the inventory grid.
+     * @param {string} slot - The equipment slot, ie. `head`.
+     * @returns {Promise<ItemResult<{ item: Item; previous?: Item }>>} The equipped item, and the item it replaced.
+     */
+    async function equip(uid: string, slot: string): Promise<ItemResult<{ item: Item; previous?: Item }>> {
+        if (!ItemManagerConfig.equipment.slots.includes(slot)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.EQUIP_SLOT_NOT_FOUND, { slot }));
+        }
+
+        return lockManager.run(container.lockKeys, async () => {
+            const data = document.get<InventoryExtension & EquipmentExtension>();
+            const items = Utility.clone.arrayData(data.items ?? []);
+            const equipment = Utility.clone.objectData<{ [slot: string]: Item }>(data.equipment ?? {});
+
+            const index = items.findIndex((x) => x.uid === uid);
+            if (index <= -1) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
+            }
+
+            const item = items[index];
+            if (!getAllowedSlots(item).includes(slot)) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.NOT_EQUIPPABLE, { uid, slot }));
+            }
+
+            items.splice(index, 1);
+
+            let newItems = items;
+            const previous = equipment[slot];
+            if (previous) {
+                const result = itemArrayManager.addSpecificItem(previous, items, container.getOptions());
+
+                if (result.success === false) {
+                    return itemErrors.track(result);
+                }
+
+                newItems = result.items;
+            }
+
+            delete item.position;
+            equipment[slot] = item;
+            await save(newItems, equipment);
+
+            container.invokeOnItemRemoved(item.id, item.quantity);
+            if (previous) {
+                container.invokeOnItemAdded(previous.id, previous.quantity);
+                invoker.invokeOnUnequip(player, slot, previous);
+            }
+
+            invoker.invokeOnEquip(player, slot, item);
+            return itemErrors.track({ success: true, item, previous });
+        });
+    }
+
+    /**
+     * Move an equipped item back into the inventory grid.
+     *
+     * Saves to database
+     *
+     * @param {string} slot - The equipment slot, ie. `head`.
+     * @param {{ x: number; y: number }} [position] - Uses the first free position if not provided.
+     * @returns {Promise<ItemResult<{ item: Item }>>} The item that was unequipped.
+     */
+    async function unequip(slot: string, position?: { x: number; y: number }): Promise<ItemResult<{ item: Item }>> {
+        return lockManager.run(container.lockKeys, async () => {
+            const data = document.get<InventoryExtension & EquipmentExtension>();
+            const equipment = Utility.clone.objectData<{ [slot: string]: Item }>(data.equipment ?? {});
+
+            const item = equipment[slot];
+            if (!item) {
+                return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { slot }));
+            }
+
+            if (position) {
+                item.position = { x: position.x, y: position.y };
+            }
+
+            const result = itemArrayManager.addSpecificItem(item, data.items ?? [], container.getOptions());
+
+            if (result.success === false) {
+                return itemErrors.track(result);
+            }
+
+            delete equipment[slot];
+            await save(result.items, equipment);
+
+            container.invokeOnItemAdded(item.id, item.quantity);
+            invoker.invokeOnUnequip(player, slot, item);
+            return itemErrors.track({ success: true, item });
+        });
+    }
+
+    /**
+     * Returns the item equipped in a slot, returns `undefined` if the slot is empty.
+     *
+     * @param {string} slot - The equipment slot, ie. `head`.
+     * @returns {Readonly<Item> | undefined}
+     */
+    function get(slot: string): Readonly<Item> | undefined {
+        return document.get<EquipmentExtension>().equipment?.[slot];
+    }
+
+    /**
+     * Returns all equipped items, keyed by slot.
+     *
+     * @returns {Readonly<{ [slot: string]: Item }>}
+     */
+    function getAll(): Readonly<{ [slot: string]: Item }> {
+        return Utility.clone.objectData(document.get<EquipmentExtension>().equipment ?? {});
+    }
+
+    /**
+     * Returns the slots an item in the inventory grid can be equipped in.
+     *
+     * @param {string} uid - The uid of the item in the inventory grid.
+     * @returns {string[]}
+     */
+    function getSlotsFor(uid: string): string[] {
+        const item = itemManagerForPlayer.getByUid(uid);
+        if (!item) {
+            return [];
+        }
+
+        return getAllowedSlots(item).filter((slot) => ItemManagerConfig.equipment.slots.includes(slot));
+    }
+
+    return {
+        equip,
+        get,
+        getAll,
+        getError: itemErrors.getError,
+        getErrorMessage(locale: string = localeManager.getLocale(player)) {
+            return itemErrors.getErrorMessage(locale);
+        },
+        getSlotsFor,
+        unequip,
+    };
+}
@@ -0,0 +1,52 @@
+import * as alt from 'alt-server';
+import { Item } from '../shared/types.js';
+
+type PlayerEquipCallback = (player: alt.Player, slot: string, item: Item) => void;
+type PlayerUnequipCallback = (player: alt.Player, slot: string, item: Item) => void;
+
+const onEquipCallbacks: PlayerEquipCallback[] = [];
+const onUnequipCallbacks: PlayerUnequipCallback[] = [];
+
+export function usePlayerEquipmentManagerEventInvoker() {
+    function invokeOnEquip(player: alt.Player, slot: string, item: Item) {
+        for (let cb of onEquipCallbacks) {
+            cb(player, slot, item);
+        }
+    }
+
+    function invokeOnUnequip(player: alt.Player, slot: string, item: Item) {
+        for (let cb of onUnequipCallbacks) {
+            cb(player, slot, item);
+        }
+    }
+
+    return {
+        invokeOnEquip,
+        invokeOnUnequip,
+    };
+}
+
+export function usePlayerEquipmentManagerEvents() {
+    /**
+     * Invokes a callback when an item is equipped by a player
+     *
+     * @param {PlayerEquipCallback} cb
+     */
+    function onEquip(cb: PlayerEquipCallback) {
+        onEquipCallbacks.push(cb);
+    }
+
+    /**
+     * Invokes a callback when an item is unequipped by a player, including when it is swapped out
+     *
+     * @param {PlayerUnequipCallback} cb
+     */
+    function onUnequip(cb: PlayerUnequipCallback) {
+        onUnequipCallbacks.push(cb);
+    }
+
+    return {
+        onEquip,
+        onUnequip,
+    };
+}
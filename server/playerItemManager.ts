@@ -1,15 +1,41 @@
 import * as alt from 'alt-server';
 import { useRebar } from '@Server/index.js';
-import { AddOptions, InventoryExtension, Item } from '../shared/types.js';
+import * as Utility from '@Shared/utility/index.js';
+import {
+    AddOptions,
+    BaseItem,
+    HotbarBinding,
+    HotbarExtension,
+    InventoryExtension,
+    Item,
+    ItemContainer,
+    ItemErrorCode,
+    ItemQuery,
+    ItemRemoveOrder,
+    ItemResult,
+    ItemSortMode,
+    ItemSummary,
+} from '../shared/types.js';
 import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
 import { ItemIDs } from '../shared/ignoreItemIds.js';
 import { usePlayerItemManagerEventInvoker } from './playerItemManagerEvents.js';
 import { useItemUsageManager } from './itemUsageManager.js';
 import { ItemManagerConfig } from '../shared/config.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+import { useItemLocaleManager } from './itemLocaleManager.js';
+import { useItemCapacityManager } from './itemCapacityManager.js';
 
 const Rebar = useRebar();
 
 const invoker = usePlayerItemManagerEventInvoker();
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+const localeManager = useItemLocaleManager();
+const capacityManager = useItemCapacityManager();
 
 /**
  * Manages player items by interfacing with the player's inventory and item manager.
@@ -23,6 +49,8 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
     const document = Rebar.document.character.useCharacter(player);
     const itemArrayManager = useItemArrayManager();
     const itemUsage = useItemUsageManager();
+    const itemErrors = useItemErrors();
+    const lockKey = `player:${document.get()._id}`;
 
     const data = document.get<InventoryExtension>();
     if (!data.inventoryCells) {
@@ -39,6 +67,25 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
         });
     }
 
+    /**
+     * Checks the item rules for adding the item to the player's inventory.
+     *
+     * @param {Readonly<BaseItem>} item - The item to check.
+     * @returns {ItemResult} A failed result with `RULE_RESTRICTED` if a rule prevents the item from being added.
+     */
+    function checkRules(item: Readonly<BaseItem> | undefined): ItemResult {
+        if (!item) {
+            return { success: true };
+        }
+
+        const violatedRule = ruleManager.check(item, { action: 'add', container: 'player', player });
+        if (!violatedRule) {
+            return { success: true };
+        }
+
+        return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
+    }
+
     /**
      * Adds a similar item based on `id` or creates a new item and adds it to the player's inventory.
      * Saves the updated inventory to the database.
@@ -46,10 +93,14 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      * @param {ItemIDs} id - The ID of the item to add.
      * @param {number} quantity - The quantity of the item to add.
      * @param {AddOptions} [addOptions={}] - Additional options for adding the item.
-     * @returns {Promise<boolean>} A promise that resolves to `true` if the item was added successfully, otherwise `false`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
      */
-    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}) {
-        console.log(`Added Quantity => ${quantity}`);
+    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(itemManager.getBaseItem(id));
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
         const data = document.get<InventoryExtension>();
         if (!data.items) {
             data.items = [];
@@ -59,17 +110,21 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
             addOptions.maxCells = data.inventoryCells;
         }
 
-        const items = itemArrayManager.add(id, quantity, data.items, addOptions);
-        if (!items) {
-            return false;
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight();
         }
 
-        await document.set<InventoryExtension>('items', items);
+        const result = itemArrayManager.add(id, quantity, data.items, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
 
         invoker.invokeOnItemAdded(player, id, quantity);
-        invoker.invokeOnItemsUpdated(player, items);
+        invoker.invokeOnItemsUpdated(player, result.items);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -78,12 +133,14 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      *
      * @param {Item} item - The specific item to add, including all its properties.
      * @param {AddOptions} [addOptions={}] - Additional options for adding the item.
-     * @returns {Promise<boolean>} A promise that resolves to `true` if the item was added successfully, otherwise `false`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
      */
-    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<boolean> {
-        console.log(
-            `Adding specific item: ${item.id}, ${item.uid} with pos: ${JSON.stringify(item.position)}, Quantity: ${item.quantity}`,
-        );
+    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(item);
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
         const data = document.get<InventoryExtension>();
         if (!data.items) {
             data.items = [];
@@ -93,48 +150,123 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
             addOptions.maxCells = data.inventoryCells;
         }
 
-        const items = itemArrayManager.addSpecificItem(item, data.items, addOptions);
-        if (!items) {
-            return false;
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight();
+        }
+
+        const result = itemArrayManager.addSpecificItem(item, data.items, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
         invoker.invokeOnItemAdded(player, item.id, item.quantity);
-        invoker.invokeOnItemsUpdated(player, items);
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
+    }
 
-        return true;
+    /**
+     * Removes a quantity of an item stack by `uid` from the player's inventory.
+     * Saves the updated inventory to the database.
+     *
+     * Use `removeById` to remove by `id` across multiple stacks.
+     *
+     * @param {string} uid - The UID of the item stack to remove from.
+     * @param {number} quantity - The quantity of the item to remove.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
+     */
+    async function remove(uid: string, quantity: number): Promise<ItemResult> {
+        const items = document.get<InventoryExtension>().items ?? [];
+        const result = itemArrayManager.remove(uid, quantity, items);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        const removedItem = items.find((item) => item.uid === uid);
+        if (removedItem) {
+            invoker.invokeOnItemRemoved(player, removedItem.id, quantity);
+        }
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
-     * Removes an item by `id` and quantity from the player's inventory.
+     * Removes a quantity of an item by `id` from the player's inventory, draining multiple stacks if needed.
      * Saves the updated inventory to the database.
      *
      * @param {ItemIDs} id - The ID of the item to remove.
      * @param {number} quantity - The quantity of the item to remove.
-     * @returns {Promise<boolean>} A promise that resolves to `true` if the item was removed successfully, otherwise `false`.
+     * @param {ItemRemoveOrder} [order] - Which stacks are drained first, uses the configured order if not provided.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
      */
-    async function remove(uid: string, quantity: number): Promise<boolean> {
+    async function removeById(id: ItemIDs, quantity: number, order?: ItemRemoveOrder): Promise<ItemResult> {
         const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            data.items = [];
+        const result = itemArrayManager.removeById(id, quantity, data.items ?? [], order);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        const initialQuantity = quantity;
-        const items = itemArrayManager.remove(uid, quantity, data.items);
-        if (!items) {
-            return false;
+        await updateItems(result.items);
+
+        invoker.invokeOnItemRemoved(player, id, quantity);
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Drops a quantity of an item stack out of the player's inventory.
+     * Items with `rules.noDropping` are destroyed instead of dropped.
+     * Saves the updated inventory to the database.
+     *
+     * @param {string} uid - The UID of the item to drop.
+     * @param {number} [quantity] - The quantity to drop, drops the whole stack if not provided.
+     * @returns {Promise<ItemResult<{ item: Item | null; destroyed: boolean }>>} The dropped item, `null` if it was destroyed.
+     */
+    async function drop(
+        uid: string,
+        quantity?: number,
+    ): Promise<ItemResult<{ item: Item | null; destroyed: boolean }>> {
+        const data = document.get<InventoryExtension>();
+        const item = data.items ? data.items.find((x) => x.uid === uid) : undefined;
+        if (!item) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
         }
 
-        await document.set<InventoryExtension>('items', items);
+        const violatedRule = ruleManager.check(item, { action: 'drop', player });
+        if (violatedRule) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule }));
+        }
 
-        const removedItem = data.items.find((item) => item.uid === uid);
-        if (removedItem) {
-            invoker.invokeOnItemRemoved(player, removedItem.id, initialQuantity);
+        const amount = typeof quantity === 'undefined' ? item.quantity : quantity;
+        const result = itemArrayManager.removeQuantityFrom(uid, amount, data.items);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
-        invoker.invokeOnItemsUpdated(player, items);
 
-        return true;
+        await updateItems(result.items);
+
+        invoker.invokeOnItemRemoved(player, item.id, amount);
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        if (item.rules?.noDropping) {
+            return itemErrors.track({ success: true, item: null, destroyed: true });
+        }
+
+        const droppedItem: Item = Utility.clone.objectData(item);
+        droppedItem.quantity = amount;
+        delete droppedItem.position;
+
+        if (amount < item.quantity) {
+            droppedItem.uid = Utility.uid.generate();
+        }
+
+        return itemErrors.track({ success: true, item: droppedItem, destroyed: false });
     }
 
     /**
@@ -144,7 +276,7 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      * @returns {Promise<void>} A promise that resolves to `true` if the item was removed successfully, otherwise `false`.
      */
     async function clearArray() {
-        await document.set<InventoryExtension>('items', []);
+        await updateItems([]);
     }
 
     /**
@@ -152,22 +284,22 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      *
      * @param {string} uid
      * @param {number} quantity
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function removeQuantityFrom(uid: string, quantity: number) {
+    async function removeQuantityFrom(uid: string, quantity: number): Promise<ItemResult> {
         const data = document.get<InventoryExtension>();
         if (!data.items) {
             data.items = [];
         }
 
-        const items = itemArrayManager.removeQuantityFrom(uid, quantity, data.items);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.removeQuantityFrom(uid, quantity, data.items);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
-        invoker.invokeOnItemsUpdated(player, items);
-        return true;
+        await updateItems(result.items);
+        invoker.invokeOnItemsUpdated(player, result.items);
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -202,6 +334,25 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
         return itemArrayManager.getData(uid, items);
     }
 
+    /**
+     * Finds all items in the player's inventory that match every filter of the query.
+     *
+     * @param {ItemQuery} itemQuery - The filters, ie. `{ id: 'burger', decayWithin: 2 }`.
+     * @returns {Readonly<Item>[]} The matching items.
+     */
+    function query(itemQuery: ItemQuery): Readonly<Item>[] {
+        return itemArrayManager.query(itemQuery, get());
+    }
+
+    /**
+     * Gets the totals of the player's inventory, such as the quantity of every item and the free grid cells.
+     *
+     * @returns {ItemSummary} The totals of the inventory.
+     */
+    function getSummary(): ItemSummary {
+        return itemArrayManager.getSummary(get(), getContainer().getOptions());
+    }
+
     /**
      * Checks if the player has enough of an item.
      *
@@ -224,33 +375,20 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      *
      * @param {string} uidToStackOn - The UID of the item to stack onto.
      * @param {string} uidToStack - The UID of the item to be stacked.
-     * @returns {Promise<{success: boolean, item: Item}>} A promise that resolves to `true` if the items were stacked successfully, otherwise `false`.
+     * @returns {Promise<ItemResult<{ item: Item }>>} A promise that resolves to the stacked item, with the reason on failure.
      */
-    async function stack(uidToStackOn: string, uidToStack: string): Promise<{ success: boolean; item: Item }> {
+    async function stack(uidToStackOn: string, uidToStack: string): Promise<ItemResult<{ item: Item }>> {
         const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return {
-                success: false,
-                item: null,
-            };
+        const result = itemArrayManager.stack(uidToStackOn, uidToStack, data.items ?? []);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        const result = itemArrayManager.stack(uidToStackOn, uidToStack, data.items);
-        if (!result.success) {
-            return {
-                success: false,
-                item: null,
-            };
-        }
-
-        await document.set<InventoryExtension>('items', result.items);
+        await updateItems(result.items);
 
         invoker.invokeOnItemsUpdated(player, result.items);
 
-        return {
-            success: true,
-            item: result.newItem,
-        };
+        return itemErrors.track({ success: true, item: result.newItem });
     }
 
     /**
@@ -260,40 +398,74 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      * @param {string} uid - The UID of the item to split.
      * @param {number} amountToSplit - The amount to split from the item.
      * @param {AddOptions} [options={}] - Additional options for splitting the item.
-     * @returns {Promise<{ success: boolean; oldItem: Item; newItem: Item }>} A promise that resolves to `true` if the item was split successfully, otherwise `false`.
+     * @returns {Promise<ItemResult<{ oldItem: Item; newItem: Item }>>} A promise that resolves to both items, with the reason on failure.
      */
-    async function split(uid: string, amountToSplit: number, options: AddOptions = {}) {
+    async function split(
+        uid: string,
+        amountToSplit: number,
+        options: AddOptions = {},
+    ): Promise<ItemResult<{ oldItem: Item; newItem: Item }>> {
         const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-            };
-        }
-
         if (!options.maxCells) {
             options.maxCells = data.inventoryCells;
         }
 
-        const result = itemArrayManager.split(uid, amountToSplit, data.items, options);
-        if (!result.success) {
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-            };
+        if (typeof options.maxWeight === 'undefined') {
+            options.maxWeight = getMaxWeight();
+        }
+
+        const result = itemArrayManager.split(uid, amountToSplit, data.items ?? [], options);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', result.items);
+        await updateItems(result.items);
 
         invoker.invokeOnItemsUpdated(player, result.items);
 
-        return {
-            success: true,
-            oldItem: result.oldItem,
-            newItem: result.newItem,
-        };
+        return itemErrors.track({ success: true, oldItem: result.oldItem, newItem: result.newItem });
+    }
+
+    /**
+     * Sorts the player's inventory and places all items in the grid again in the new order.
+     * Saves the updated inventory to the database.
+     *
+     * @param {ItemSortMode} mode - How items are ordered, ie. `name` or `category`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, fails if the items no longer fit the grid.
+     */
+    async function sort(mode: ItemSortMode): Promise<ItemResult> {
+        const data = document.get<InventoryExtension>();
+        const result = itemArrayManager.sort(mode, data.items ?? [], getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Merges partial stacks of the same item up to their max stack, and places all items in the grid again.
+     * Stacks with different data, durability, or decay are never merged.
+     * Saves the updated inventory to the database.
+     *
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, fails if the items no longer fit the grid.
+     */
+    async function compact(): Promise<ItemResult> {
+        const data = document.get<InventoryExtension>();
+        const result = itemArrayManager.compact(data.items ?? [], getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -301,24 +473,47 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      *
      * @param {string} uid
      * @param {Partial<Omit<Item, '_id'>>} data
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function update(uid: string, data: Partial<Omit<Item, '_id'>>) {
+    async function update(uid: string, data: Partial<Omit<Item, '_id'>>): Promise<ItemResult> {
         const playerDocument = document.get<InventoryExtension>();
-        if (!playerDocument.items) {
-            return false;
+        const result = itemArrayManager.update(uid, data, playerDocument.items ?? []);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        const items = itemArrayManager.update(uid, data, playerDocument.items);
-        if (!items) {
-            return false;
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(player, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Moves an item to a new position in the player's inventory grid, and optionally rotates it.
+     * If another item occupies the target cells, both items swap places.
+     * Saves the updated inventory to the database.
+     *
+     * @param {string} uid - The UID of the item to move.
+     * @param {{ x: number; y: number }} position - The new top left cell of the item.
+     * @param {number} [rotation] - The new rotation of the item, keeps the current rotation if not provided.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
+     */
+    async function move(uid: string, position: { x: number; y: number }, rotation?: number): Promise<ItemResult> {
+        const data = document.get<InventoryExtension>();
+        const result = itemArrayManager.move(uid, position, rotation, data.items ?? [], {
+            maxCells: data.inventoryCells,
+        });
+
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemsUpdated(player, items);
+        invoker.invokeOnItemsUpdated(player, result.items);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -327,15 +522,15 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      * Simply invokes the event attached to the base item if available
      *
      * @param {string} uid
-     * @return
+     * @return {Promise<ItemResult>}
      */
-    async function use(uid: string) {
+    async function use(uid: string): Promise<ItemResult> {
         const item = getByUid(uid);
         if (!item) {
-            return false;
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
         }
 
-        return itemUsage.invoke(player, item);
+        return itemErrors.track(itemUsage.invoke(player, item));
     }
 
     /**
@@ -344,18 +539,17 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
      * Simply invokes the event attached to the base item if available
      *
      * @param {string} uid
-     * @return
+     * @return {Promise<ItemResult>}
      */
-    async function useOne(uid: string) {
+    async function useOne(uid: string): Promise<ItemResult> {
         const item = getByUid(uid);
         if (!item) {
-            return false;
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
         }
 
-        const didInvoke = itemUsage.invoke(player, item);
-        if (!didInvoke) {
-            itemArrayManager.setErrorMessage(itemUsage.getErrorMessage());
-            return false;
+        const result = itemUsage.invoke(player, item);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
         return removeQuantityFrom(uid, 1);
@@ -373,27 +567,194 @@ export function usePlayerItemManager(player: alt.Player, inventoryCells?: { widt
         }
 
         const items = itemArrayManager.invokeDecay(data.items);
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(items);
+
+        invoker.invokeOnItemsUpdated(player, items);
+    }
+
+    /**
+     * Gets the maximum weight the player can carry, including all carry capacity modifiers.
+     *
+     * Uses the `maxWeight` stored on the character, or the configured max weight if not set.
+     *
+     * @returns {number} The maximum weight.
+     */
+    function getMaxWeight(): number {
+        const data = document.get<InventoryExtension>();
+        const maxWeight = typeof data.maxWeight === 'number' ? data.maxWeight : ItemManagerConfig.weight.maxWeight;
+        return capacityManager.getMaxWeight(maxWeight, { container: 'player', items: data.items ?? [], player });
+    }
+
+    /**
+     * Stores a maximum weight on the character, before carry capacity modifiers are applied.
+     *
+     * @param {number} [maxWeight] - The new maximum weight, uses the configured max weight if not provided.
+     * @returns {Promise<void>}
+     */
+    async function setMaxWeight(maxWeight?: number) {
+        await document.set<InventoryExtension>('maxWeight', maxWeight);
+    }
+
+    /**
+     * Binds an item in the inventory to a hotbar slot, the item stays in the inventory.
+     *
+     * @param {number} slot - The hotbar slot, starting at `1`.
+     * @param {string} uid - The uid of the item to bind.
+     * @param {boolean} [consume=false] - Removes one of the item whenever the slot is used.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
+     */
+    async function bindHotbar(slot: number, uid: string, consume: boolean = false): Promise<ItemResult> {
+        if (!Number.isInteger(slot) || slot < 1 || slot > ItemManagerConfig.hotbar.slots) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.HOTBAR_SLOT_NOT_FOUND, { slot }));
+        }
+
+        if (!getByUid(uid)) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { uid }));
+        }
+
+        const hotbar = { ...document.get<HotbarExtension>().hotbar, [slot]: { uid, consume } };
+        await document.set<HotbarExtension>('hotbar', hotbar);
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Removes the binding of a hotbar slot.
+     *
+     * @param {number} slot - The hotbar slot, starting at `1`.
+     * @returns {Promise<void>}
+     */
+    async function unbindHotbar(slot: number) {
+        const hotbar = { ...document.get<HotbarExtension>().hotbar };
+        if (!hotbar[slot]) {
+            return;
+        }
+
+        delete hotbar[slot];
+        await document.set<HotbarExtension>('hotbar', hotbar);
+    }
+
+    /**
+     * Returns all hotbar bindings that point to an item in the inventory, keyed by slot.
+     *
+     * @returns {Readonly<{ [slot: number]: HotbarBinding }>}
+     */
+    function getHotbar(): Readonly<{ [slot: number]: HotbarBinding }> {
+        return getValidHotbar(get());
+    }
+
+    /**
+     * Uses the item bound to a hotbar slot, with `use` or `useOne` depending on the binding.
+     *
+     * @param {number} slot - The hotbar slot, starting at `1`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
+     */
+    async function useHotbarSlot(slot: number): Promise<ItemResult> {
+        const binding = getHotbar()[slot];
+        if (!binding) {
+            return itemErrors.track(itemErrors.fail(ItemErrorCode.ITEM_NOT_FOUND, { slot }));
+        }
+
+        return binding.consume ? useOne(binding.uid) : use(binding.uid);
+    }
+
+    /**
+     * Returns the hotbar without bindings to items that are no longer in the inventory.
+     *
+     * @param {Readonly<Item[]>} items - The items in the inventory.
+     * @returns {{ [slot: number]: HotbarBinding }}
+     */
+    function getValidHotbar(items: Readonly<Item[]>): { [slot: number]: HotbarBinding } {
+        const hotbar = { ...document.get<HotbarExtension>().hotbar };
+        for (let slot of Object.keys(hotbar)) {
+            if (!items.find((x) => x.uid === hotbar[slot].uid)) {
+                delete hotbar[slot];
+            }
+        }
+
+        return hotbar;
+    }
+
+    /**
+     * Writes the items to the character document.
+     *
+     * Hotbar bindings to items that were removed, stacked, equipped, or decayed are removed in the same write.
+     *
+     * @param {Item[]} items - The full list of items to store.
+     * @returns {Promise<void>}
+     */
+    async function updateItems(items: Item[]) {
+        const hotbar = document.get<HotbarExtension>().hotbar ?? {};
+        const validHotbar = getValidHotbar(items);
+        if (Object.keys(validHotbar).length === Object.keys(hotbar).length) {
+            await document.set<InventoryExtension>('items', items);
+            return;
+        }
+
+        await document.setBulk<InventoryExtension & HotbarExtension>({ items, hotbar: validHotbar });
+    }
+
+    /**
+     * Returns a generic container for the player's inventory, used to move items between inventories.
+     *
+     * @returns {ItemContainer} A container bound to this player.
+     */
+    function getContainer(): ItemContainer {
+        return {
+            type: 'player',
+            key: lockKey,
+            lockKeys: [lockKey],
+            async getItems() {
+                return Utility.clone.arrayData(document.get<InventoryExtension>().items ?? []);
+            },
+            getOptions() {
+                return { maxCells: document.get<InventoryExtension>().inventoryCells, maxWeight: getMaxWeight() };
+            },
+            setItems: updateItems,
+            invokeOnItemAdded(id: string, quantity: number) {
+                invoker.invokeOnItemAdded(player, id, quantity);
+            },
+            invokeOnItemRemoved(id: string, quantity: number) {
+                invoker.invokeOnItemRemoved(player, id, quantity);
+            },
+            invokeOnItemsUpdated(items: Item[]) {
+                invoker.invokeOnItemsUpdated(player, items);
+            },
+        };
     }
 
     return {
-        add,
-        addSpecificItem,
+        add: lockManager.wrap(lockKey, add),
+        addSpecificItem: lockManager.wrap(lockKey, addSpecificItem),
+        bindHotbar: lockManager.wrap(lockKey, bindHotbar),
         get,
+        getContainer,
         getData,
-        getErrorMessage() {
-            return itemArrayManager.getErrorMessage();
+        getError: itemErrors.getError,
+        getErrorMessage(locale: string = localeManager.getLocale(player)) {
+            return itemErrors.getErrorMessage(locale);
         },
+        getHotbar,
+        getMaxWeight,
         getByUid,
+        getSummary,
         has,
-        invokeDecay,
-        remove,
-        removeQuantityFrom,
-        clearArray,
-        split,
-        stack,
-        update,
+        invokeDecay: lockManager.wrap(lockKey, invokeDecay),
+        move: lockManager.wrap(lockKey, move),
+        query,
+        remove: lockManager.wrap(lockKey, remove),
+        removeById: lockManager.wrap(lockKey, removeById),
+        removeQuantityFrom: lockManager.wrap(lockKey, removeQuantityFrom),
+        clearArray: lockManager.wrap(lockKey, clearArray),
+        compact: lockManager.wrap(lockKey, compact),
+        setMaxWeight: lockManager.wrap(lockKey, setMaxWeight),
+        drop: lockManager.wrap(lockKey, drop),
+        sort: lockManager.wrap(lockKey, sort),
+        split: lockManager.wrap(lockKey, split),
+        stack: lockManager.wrap(lockKey, stack),
+        unbindHotbar: lockManager.wrap(lockKey, unbindHotbar),
+        update: lockManager.wrap(lockKey, update),
         use,
-        useOne,
+        useHotbarSlot: lockManager.wrap(lockKey, useHotbarSlot),
+        useOne: lockManager.wrap(lockKey, useOne),
     };
 }
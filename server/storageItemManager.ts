@@ -3,17 +3,39 @@ import * as Utility from '@Shared/utility/index.js';
 import { useRebar } from '@Server/index.js';
 
 import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
 import { useStorageItemManagerInvoker } from './storageItemManagerEvents.js';
 
 import { ItemIDs } from '../shared/ignoreItemIds.js';
 import { ItemManagerConfig } from '../shared/config.js';
-import { AddOptions, Item, Storage } from '../shared/types.js';
+import {
+    AddOptions,
+    BaseItem,
+    Item,
+    ItemContainer,
+    ItemErrorCode,
+    ItemFilter,
+    ItemQuery,
+    ItemRemoveOrder,
+    ItemResult,
+    ItemSortMode,
+    ItemSummary,
+    Storage,
+} from '../shared/types.js';
 import { useItemManagerDatabase } from './database.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+import { useItemCapacityManager } from './itemCapacityManager.js';
 
 const Rebar = useRebar();
 const db = Rebar.database.useDatabase();
 const invoker = useStorageItemManagerInvoker();
 const managerDb = useItemManagerDatabase();
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+const capacityManager = useItemCapacityManager();
 
 /**
  * When an `identifier` is assigned to this document manager, it will automatically
@@ -26,6 +48,8 @@ const managerDb = useItemManagerDatabase();
  */
 export async function useStorageItemManager(identifier: string, options: Omit<AddOptions, 'data'> = {}) {
     const itemArrayManager = useItemArrayManager();
+    const itemErrors = useItemErrors();
+    const lockKey = `storage:${identifier}`;
 
     if (!options.name) {
         options.name = 'Storage ' + identifier;
@@ -41,14 +65,47 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
 
     await alt.Utils.waitFor(() => managerDb.isReady(), 30000);
 
-    let document = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
-    if (!document) {
+    // Prevents two managers from creating the same storage at once
+    let document = await lockManager.run(lockKey, async () => {
+        const existingDocument = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
+        if (existingDocument) {
+            return existingDocument;
+        }
+
         await db.create<Omit<Storage, '_id'>>(
-            { id: identifier, items: [], name: options.name, maxCells: options.maxCells, lastAccessed: Date.now() },
+            {
+                id: identifier,
+                items: [],
+                name: options.name,
+                maxCells: options.maxCells,
+                maxWeight: options.maxWeight,
+                allow: options.allow,
+                deny: options.deny,
+                lastAccessed: Date.now(),
+            },
             ItemManagerConfig.collectionNameForStorage,
         );
 
-        document = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
+        return await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
+    });
+
+    /**
+     * Checks the item rules for adding the item to the storage
+     *
+     * @param {Readonly<BaseItem>} item
+     * @return {ItemResult}
+     */
+    function checkRules(item: Readonly<BaseItem> | undefined): ItemResult {
+        if (!item) {
+            return { success: true };
+        }
+
+        const violatedRule = ruleManager.check(item, { action: 'add', container: 'storage' });
+        if (!violatedRule) {
+            return { success: true };
+        }
+
+        return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
     }
 
     /**
@@ -57,21 +114,42 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      * Saves to database
      *
      * @param {Item} item
-     * @return
+     * @return {Promise<ItemResult>}
      */
-    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}) {
+    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(itemManager.getBaseItem(id));
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
         const currentItems = await getInternal();
-        const items = itemArrayManager.add(id, quantity, currentItems, addOptions);
-        if (!items) {
-            return false;
+        if (!addOptions.maxCells) {
+            addOptions.maxCells = document.maxCells || options.maxCells;
         }
 
-        await updateItems(items);
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight(currentItems);
+        }
+
+        if (!addOptions.allow) {
+            addOptions.allow = document.allow ?? options.allow;
+        }
+
+        if (!addOptions.deny) {
+            addOptions.deny = document.deny ?? options.deny;
+        }
+
+        const result = itemArrayManager.add(id, quantity, currentItems, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
 
         invoker.invokeOnItemAdded(identifier, id, quantity);
-        invoker.invokeOnItemsUpdated(identifier, items);
+        invoker.invokeOnItemsUpdated(identifier, result.items);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -80,46 +158,92 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      * @param {Item} item - The specific item to add, including all its properties.
      * @param {AddOptions} [addOptions={}] - Additional options for adding the item.
-     * @returns {Promise<boolean>} A promise that resolves to `true` if the item was added successfully, otherwise `false`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
      */
-    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<boolean> {
+    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(item);
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
         const currentItems = await getInternal();
-        const items = itemArrayManager.addSpecificItem(item, currentItems, addOptions);
-        if (!items) {
-            return false;
+        if (!addOptions.maxCells) {
+            addOptions.maxCells = document.maxCells || options.maxCells;
         }
 
-        await updateItems(items);
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight(currentItems);
+        }
+
+        if (!addOptions.allow) {
+            addOptions.allow = document.allow ?? options.allow;
+        }
+
+        if (!addOptions.deny) {
+            addOptions.deny = document.deny ?? options.deny;
+        }
+
+        const result = itemArrayManager.addSpecificItem(item, currentItems, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
 
         invoker.invokeOnItemAdded(identifier, item.id, item.quantity);
-        invoker.invokeOnItemsUpdated(identifier, items);
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Remove a quantity of an item stack by `uid`, use `removeById` to remove by `id` across multiple stacks
+     *
+     * Saves to database
+     *
+     * @param {string} uid
+     * @param {number} quantity
+     * @return {Promise<ItemResult>}
+     */
+    async function remove(uid: string, quantity: number): Promise<ItemResult> {
+        const currentItems = await getInternal();
+        const result = itemArrayManager.remove(uid, quantity, currentItems);
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
 
-        return true;
+        const removedItem = currentItems.find((item) => item.uid === uid);
+        invoker.invokeOnItemRemoved(identifier, removedItem.id, quantity);
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
-     * Remove an item by `id` and quantity
+     * Remove a quantity of items by `id` across multiple stacks
      *
      * Saves to database
      *
      * @param {ItemIDs} id
      * @param {number} quantity
-     * @return {Promise<boolean>}
+     * @param {ItemRemoveOrder} [order] Which stacks are drained first, uses the configured order if not provided
+     * @return {Promise<ItemResult>}
      */
-    async function remove(id: ItemIDs, quantity: number): Promise<boolean> {
+    async function removeById(id: ItemIDs, quantity: number, order?: ItemRemoveOrder): Promise<ItemResult> {
         const currentItems = await getInternal();
-        const initialQuantity = quantity;
-        const items = itemArrayManager.remove(id, quantity, currentItems);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.removeById(id, quantity, currentItems, order);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await updateItems(items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemRemoved(identifier, id, initialQuantity);
-        invoker.invokeOnItemsUpdated(identifier, items);
+        invoker.invokeOnItemRemoved(identifier, id, quantity);
+        invoker.invokeOnItemsUpdated(identifier, result.items);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -128,12 +252,7 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      * @return {Item[]}
      */
     async function get(): Promise<Readonly<Item[]>> {
-        const document = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
-        if (!document) {
-            return [];
-        }
-
-        return (Utility.clone.arrayData(document.items) as Readonly<Item[]>) ?? ([] as Readonly<Item[]>);
+        return getInternal();
     }
 
     /**
@@ -159,17 +278,39 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
         return itemArrayManager.getData(uid, items);
     }
 
+    /**
+     * Find all items that match every filter of the query
+     *
+     * @param {ItemQuery} itemQuery
+     * @return {Promise<Readonly<Item>[]>}
+     */
+    async function query(itemQuery: ItemQuery): Promise<Readonly<Item>[]> {
+        return itemArrayManager.query(itemQuery, await get());
+    }
+
+    /**
+     * Get the totals of the storage, ie. the quantity of every item and the free grid cells
+     *
+     * @return {Promise<ItemSummary>}
+     */
+    async function getSummary(): Promise<ItemSummary> {
+        return itemArrayManager.getSummary(await get(), getContainer().getOptions());
+    }
+
     /**
      * Internal get items that doesn't mark it as readonly
      *
+     * Reloads the storage document, so limits and filters set by other managers of the same storage are used
+     *
      * @return {Promise<Item[]>}
      */
     async function getInternal(): Promise<Item[]> {
-        const document = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
-        if (!document) {
+        const storedDocument = await db.get<Storage>({ id: identifier }, ItemManagerConfig.collectionNameForStorage);
+        if (!storedDocument) {
             return [];
         }
 
+        document = storedDocument;
         return Utility.clone.arrayData(document.items) ?? [];
     }
 
@@ -178,6 +319,7 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      */
     async function getDocument() {
+        await getInternal();
         return document;
     }
 
@@ -200,17 +342,20 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      * @param {string} uid
      * @param {number} quantity
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function removeQuantityFrom(uid: string, quantity: number) {
+    async function removeQuantityFrom(uid: string, quantity: number): Promise<ItemResult> {
         const currentItems = await getInternal();
-        const items = itemArrayManager.removeQuantityFrom(uid, quantity, currentItems);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.removeQuantityFrom(uid, quantity, currentItems);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await updateItems(currentItems);
-        return true;
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -220,26 +365,20 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      * @param {string} uidToStackOn
      * @param {string} uidToStack
-     * @return
+     * @return {Promise<ItemResult<{ item: Item }>>}
      */
-    async function stack(uidToStackOn: string, uidToStack: string) {
+    async function stack(uidToStackOn: string, uidToStack: string): Promise<ItemResult<{ item: Item }>> {
         const currentItems = await getInternal();
         const result = itemArrayManager.stack(uidToStackOn, uidToStack, currentItems);
-        if (!result.success) {
-            return {
-                success: false,
-                item: null,
-            };
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
         await updateItems(result.items);
 
         invoker.invokeOnItemsUpdated(identifier, result.items);
 
-        return {
-            success: true,
-            item: result.newItem,
-        };
+        return itemErrors.track({ success: true, item: result.newItem });
     }
 
     /**
@@ -249,29 +388,33 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      * @param {string} uid
      * @param {number} amountToSplit
-     * @param {AddOptions} [options={}]
-     * @return
+     * @param {AddOptions} [splitOptions={}]
+     * @return {Promise<ItemResult<{ oldItem: Item; newItem: Item }>>}
      */
-    async function split(uid: string, amountToSplit: number, options: AddOptions = {}) {
+    async function split(
+        uid: string,
+        amountToSplit: number,
+        splitOptions: AddOptions = {},
+    ): Promise<ItemResult<{ oldItem: Item; newItem: Item }>> {
         const currentItems = await getInternal();
-        const result = itemArrayManager.split(uid, amountToSplit, currentItems, options);
-        if (!result.success) {
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-            };
+        if (!splitOptions.maxCells) {
+            splitOptions.maxCells = document.maxCells || options.maxCells;
+        }
+
+        if (typeof splitOptions.maxWeight === 'undefined') {
+            splitOptions.maxWeight = getMaxWeight(currentItems);
+        }
+
+        const result = itemArrayManager.split(uid, amountToSplit, currentItems, splitOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
         await updateItems(result.items);
 
         invoker.invokeOnItemsUpdated(identifier, result.items);
 
-        return {
-            success: true,
-            oldItem: result.oldItem,
-            newItem: result.newItem,
-        };
+        return itemErrors.track({ success: true, oldItem: result.oldItem, newItem: result.newItem });
     }
 
     /**
@@ -284,6 +427,91 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
             { _id: document._id, items, lastAccessed: Date.now() },
             ItemManagerConfig.collectionNameForStorage,
         );
+
+        document.items = items;
+    }
+
+    /**
+     * Get the maximum weight of the storage, including all carry capacity modifiers
+     *
+     * @param {Item[]} [items] Uses the last known items if not provided
+     * @return {number}
+     */
+    function getMaxWeight(items: Readonly<Item[]> = document.items ?? []): number {
+        const maxWeight = typeof document.maxWeight === 'number' ? document.maxWeight : options.maxWeight;
+        return capacityManager.getMaxWeight(maxWeight, { container: 'storage', items, identifier });
+    }
+
+    /**
+     * Store a maximum weight on the storage, uses the storage options if not provided
+     *
+     * @param {number} [maxWeight]
+     */
+    async function setMaxWeight(maxWeight?: number) {
+        await db.update<Partial<Storage>>({ _id: document._id, maxWeight }, ItemManagerConfig.collectionNameForStorage);
+        document.maxWeight = maxWeight;
+    }
+
+    /**
+     * Store which item categories and tags the storage accepts, uses the storage options if not provided
+     *
+     * Items already inside of the storage are not removed
+     *
+     * @param {ItemFilter} [allow]
+     * @param {ItemFilter} [deny]
+     */
+    async function setFilters(allow?: ItemFilter, deny?: ItemFilter) {
+        await db.update<Partial<Storage>>(
+            { _id: document._id, allow, deny },
+            ItemManagerConfig.collectionNameForStorage,
+        );
+        document.allow = allow;
+        document.deny = deny;
+    }
+
+    /**
+     * Sort the storage and place all items in the grid again in the new order
+     *
+     * Fails if the items no longer fit the grid
+     *
+     * Saves to database
+     *
+     * @param {ItemSortMode} mode
+     * @return {Promise<ItemResult>}
+     */
+    async function sort(mode: ItemSortMode): Promise<ItemResult> {
+        const result = itemArrayManager.sort(mode, await getInternal(), getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Merge partial stacks of the same item up to their max stack, and place all items in the grid again
+     *
+     * Stacks with different data, durability, or decay are never merged
+     *
+     * Saves to database
+     *
+     * @return {Promise<ItemResult>}
+     */
+    async function compact(): Promise<ItemResult> {
+        const result = itemArrayManager.compact(await getInternal(), getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -291,20 +519,49 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      *
      * @param {string} uid
      * @param {Partial<Omit<Item, '_id'>>} data
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function update(uid: string, data: Partial<Omit<Item, '_id'>>) {
+    async function update(uid: string, data: Partial<Omit<Item, '_id'>>): Promise<ItemResult> {
         const currentItems = await getInternal();
-        const items = itemArrayManager.update(uid, data, currentItems);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.update(uid, data, currentItems);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await updateItems(items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemsUpdated(identifier, items);
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Move an item to a new position in the storage grid, and optionally rotate it
+     *
+     * If another item occupies the target cells, both items swap places
+     *
+     * Saves to database
+     *
+     * @param {string} uid
+     * @param {{ x: number; y: number }} position
+     * @param {number} [rotation]
+     * @return {Promise<ItemResult>}
+     */
+    async function move(uid: string, position: { x: number; y: number }, rotation?: number): Promise<ItemResult> {
+        const currentItems = await getInternal();
+        const result = itemArrayManager.move(uid, position, rotation, currentItems, {
+            maxCells: document.maxCells || options.maxCells,
+        });
 
-        return true;
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(identifier, result.items);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -313,35 +570,74 @@ export async function useStorageItemManager(identifier: string, options: Omit<Ad
      * @return {Promise<void>}
      */
     async function invokeDecay(): Promise<void> {
-        if (document.noDecay) {
-            return;
-        }
-
         const currentItems = await getInternal();
-        if (currentItems.length <= 0) {
+        if (document.noDecay || currentItems.length <= 0) {
             return;
         }
 
         const items = itemArrayManager.invokeDecay(currentItems);
         await updateItems(items);
+
+        invoker.invokeOnItemsUpdated(identifier, items);
+    }
+
+    /**
+     * Returns a generic container for the storage, used to move items between inventories
+     *
+     * @return {ItemContainer}
+     */
+    function getContainer(): ItemContainer {
+        return {
+            type: 'storage',
+            key: lockKey,
+            lockKeys: [lockKey],
+            getItems: getInternal,
+            getOptions() {
+                return {
+                    maxCells: document.maxCells || options.maxCells,
+                    maxWeight: getMaxWeight(),
+                    allow: document.allow ?? options.allow,
+                    deny: document.deny ?? options.deny,
+                };
+            },
+            setItems: updateItems,
+            invokeOnItemAdded(id: string, quantity: number) {
+                invoker.invokeOnItemAdded(identifier, id, quantity);
+            },
+            invokeOnItemRemoved(id: string, quantity: number) {
+                invoker.invokeOnItemRemoved(identifier, id, quantity);
+            },
+            invokeOnItemsUpdated(items: Item[]) {
+                invoker.invokeOnItemsUpdated(identifier, items);
+            },
+        };
     }
 
     return {
-        add,
-        addSpecificItem,
+        add: lockManager.wrap(lockKey, add),
+        addSpecificItem: lockManager.wrap(lockKey, addSpecificItem),
+        compact: lockManager.wrap(lockKey, compact),
         get,
         getByUid,
+        getContainer,
         getData,
         getDocument,
-        getErrorMessage() {
-            return itemArrayManager.getErrorMessage();
-        },
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        getMaxWeight,
+        getSummary,
         has,
-        invokeDecay,
-        remove,
-        removeQuantityFrom,
-        split,
-        stack,
-        update,
+        invokeDecay: lockManager.wrap(lockKey, invokeDecay),
+        move: lockManager.wrap(lockKey, move),
+        query,
+        remove: lockManager.wrap(lockKey, remove),
+        removeById: lockManager.wrap(lockKey, removeById),
+        removeQuantityFrom: lockManager.wrap(lockKey, removeQuantityFrom),
+        setFilters: lockManager.wrap(lockKey, setFilters),
+        setMaxWeight: lockManager.wrap(lockKey, setMaxWeight),
+        sort: lockManager.wrap(lockKey, sort),
+        split: lockManager.wrap(lockKey, split),
+        stack: lockManager.wrap(lockKey, stack),
+        update: lockManager.wrap(lockKey, update),
     };
 }
@@ -0,0 +1,164 @@
+import * as alt from 'alt-server';
+import { VehicleCapacity, VehicleCompartmentDefinition } from '../shared/types.js';
+import { ItemManagerConfig } from '../shared/config.js';
+
+/**
+ * Returns the class of a vehicle, ie. `8` for motorcycles
+ */
+type VehicleClassResolver = (vehicle: alt.Vehicle) => number | string | undefined;
+
+const models: { [model: number]: VehicleCapacity } = {};
+const classes: { [vehicleClass: string]: VehicleCapacity } = {};
+const compartments: { [name: string]: VehicleCompartmentDefinition } = {};
+
+let classResolver: VehicleClassResolver | undefined;
+
+/**
+ * Converts a model name to a model hash, model hashes are returned as is
+ *
+ * @param {(string | number)} model
+ * @return {number}
+ */
+function toModelHash(model: string | number): number {
+    if (typeof model === 'number') {
+        return model >>> 0;
+    }
+
+    return /^\d+$/.test(model) ? Number(model) >>> 0 : alt.hash(model) >>> 0;
+}
+
+export function useVehicleCapacityManager() {
+    /**
+     * Register the capacity of a vehicle model, registering an existing model overwrites the capacity
+     *
+     * @param {(string | number)} model Model name or hash
+     * @param {VehicleCapacity} capacity
+     */
+    function registerModel(model: string | number, capacity: VehicleCapacity) {
+        models[toModelHash(model)] = capacity;
+    }
+
+    /**
+     * Register the capacity of a vehicle class, registering an existing class overwrites the capacity
+     *
+     * @param {(number | string)} vehicleClass
+     * @param {VehicleCapacity} capacity
+     */
+    function registerClass(vehicleClass: number | string, capacity: VehicleCapacity) {
+        classes[String(vehicleClass)] = capacity;
+    }
+
+    /**
+     * Register a vehicle compartment, registering an existing compartment overwrites the definition
+     *
+     * The default compartment always uses the model and class capacity, but does use the rules
+     *
+     * @param {string} name
+     * @param {VehicleCompartmentDefinition} definition
+     */
+    function registerCompartment(name: string, definition: VehicleCompartmentDefinition) {
+        compartments[name] = definition;
+    }
+
+    /**
+     * Returns a compartment definition, returns `undefined` if the compartment is not registered
+     *
+     * @param {string} name
+     * @return {(Readonly<VehicleCompartmentDefinition> | undefined)}
+     */
+    function getCompartment(name: string): Readonly<VehicleCompartmentDefinition> | undefined {
+        return compartments[name];
+    }
+
+    /**
+     * Returns the names of all registered compartments, including the default compartment
+     *
+     * @return {string[]}
+     */
+    function getCompartments(): string[] {
+        const names = Object.keys(compartments);
+        if (!names.includes(ItemManagerConfig.vehicles.defaultCompartment)) {
+            names.unshift(ItemManagerConfig.vehicles.defaultCompartment);
+        }
+
+        return names;
+    }
+
+    /**
+     * Set the function used to find the class of a vehicle
+     *
+     * The server does not know vehicle classes, class capacities are only used after a resolver is set
+     *
+     * @param {VehicleClassResolver} resolver
+     */
+    function setClassResolver(resolver: VehicleClassResolver) {
+        classResolver = resolver;
+    }
+
+    /**
+     * Returns the capacity of a vehicle compartment
+     *
+     * The default compartment is based on the model and class, a model capacity overrides a class capacity.
+     * Anything missing uses the configured slots and weight.
+     *
+     * @param {alt.Vehicle} vehicle
+     * @param {string} [compartment=ItemManagerConfig.vehicles.defaultCompartment]
+     * @return {Required<VehicleCapacity>}
+     */
+    function getCapacity(
+        vehicle: alt.Vehicle,
+        compartment: string = ItemManagerConfig.vehicles.defaultCompartment,
+    ): Required<VehicleCapacity> {
+        if (compartment !== ItemManagerConfig.vehicles.defaultCompartment) {
+            const definition = compartments[compartment] ?? {};
+            return {
+                maxCells: definition.maxCells ?? ItemManagerConfig.slots.maxCells,
+                maxWeight: definition.maxWeight ?? ItemManagerConfig.weight.maxWeight,
+            };
+        }
+
+        let classCapacity: VehicleCapacity = {};
+        if (classResolver) {
+            try {
+                const vehicleClass = classResolver(vehicle);
+                if (typeof vehicleClass !== 'undefined') {
+                    classCapacity = classes[String(vehicleClass)] ?? {};
+                }
+            } catch (err) {
+                alt.logWarning(`[Vehicle Capacity] Class resolver failed, ${err}`);
+            }
+        }
+
+        const modelCapacity = models[toModelHash(vehicle.model)] ?? {};
+
+        return {
+            maxCells: modelCapacity.maxCells ?? classCapacity.maxCells ?? ItemManagerConfig.slots.maxCells,
+            maxWeight: modelCapacity.maxWeight ?? classCapacity.maxWeight ?? ItemManagerConfig.weight.maxWeight,
+        };
+    }
+
+    return {
+        getCapacity,
+        getCompartment,
+        getCompartments,
+        registerClass,
+        registerCompartment,
+        registerModel,
+        setClassResolver,
+    };
+}
+
+const configModels: { [model: string]: VehicleCapacity } = ItemManagerConfig.vehicles.models;
+for (let model of Object.keys(configModels)) {
+    models[toModelHash(model)] = configModels[model];
+}
+
+const configClasses: { [vehicleClass: string]: VehicleCapacity } = ItemManagerConfig.vehicles.classes;
+for (let vehicleClass of Object.keys(configClasses)) {
+    classes[vehicleClass] = configClasses[vehicleClass];
+}
+
+const configCompartments: { [name: string]: VehicleCompartmentDefinition } = ItemManagerConfig.vehicles.compartments;
+for (let name of Object.keys(configCompartments)) {
+    compartments[name] = configCompartments[name];
+}
@@ -1,16 +1,176 @@
 import * as alt from 'alt-server';
 import { useRebar } from '@Server/index.js';
-import { AddOptions, InventoryExtension, Item } from '../shared/types.js';
+import * as Utility from '@Shared/utility/index.js';
+import {
+    AddOptions,
+    BaseItem,
+    InventoryExtension,
+    Item,
+    ItemContainer,
+    ItemErrorCode,
+    ItemQuery,
+    ItemRemoveOrder,
+    ItemResult,
+    ItemSortMode,
+    ItemSummary,
+    VehicleCompartment,
+    VehicleInventoryExtension,
+} from '../shared/types.js';
 import { useItemArrayManager } from './itemArrayManager.js';
+import { useItemManager } from './itemManager.js';
+import { useItemRuleManager } from './itemRuleManager.js';
 import { ItemIDs } from '../shared/ignoreItemIds.js';
 import { useVehicleItemManagerEventInvoker } from './vehicleItemManagerEvents.js';
+import { useItemErrors } from './itemErrors.js';
+import { useItemLockManager } from './itemLockManager.js';
+import { useItemCapacityManager } from './itemCapacityManager.js';
+import { useVehicleCapacityManager } from './vehicleCapacityManager.js';
+import { ItemManagerConfig } from '../shared/config.js';
 
 const Rebar = useRebar();
 const invoker = useVehicleItemManagerEventInvoker();
+const itemManager = useItemManager();
+const ruleManager = useItemRuleManager();
+const lockManager = useItemLockManager();
+const capacityManager = useItemCapacityManager();
+const vehicleCapacityManager = useVehicleCapacityManager();
+
+// Migrations that are still being saved, keyed by vehicle document id
+const pendingMigrations: { [_id: string]: Promise<void> } = {};
+
+/**
+ * Returns the items of a vehicle from before compartments existed as a compartment
+ *
+ * @param {InventoryExtension & VehicleInventoryExtension} data
+ * @return {(VehicleCompartment | undefined)} Undefined if the vehicle was already migrated
+ */
+function getLegacyCompartment(data: InventoryExtension & VehicleInventoryExtension): VehicleCompartment | undefined {
+    if (!Array.isArray(data.items)) {
+        return undefined;
+    }
+
+    const compartment: VehicleCompartment = { items: data.items };
+    if (data.maxCells) {
+        compartment.maxCells = data.maxCells;
+    }
+
+    if (typeof data.maxWeight === 'number') {
+        compartment.maxWeight = data.maxWeight;
+    }
+
+    return compartment;
+}
+
+/**
+ * Moves the items of vehicles from before compartments existed into the default compartment
+ *
+ * Every manager of the same vehicle waits for the same migration
+ *
+ * @param {ReturnType<typeof Rebar.document.vehicle.useVehicle>} document
+ * @return {Promise<void>}
+ */
+function migrate(document: ReturnType<typeof Rebar.document.vehicle.useVehicle>): Promise<void> {
+    const _id = document.get()._id;
+    if (pendingMigrations[_id]) {
+        return pendingMigrations[_id];
+    }
+
+    const data = document.get<InventoryExtension & VehicleInventoryExtension>();
+    const compartment = getLegacyCompartment(data);
+    if (!compartment) {
+        return Promise.resolve();
+    }
+
+    pendingMigrations[_id] = document
+        .setBulk<InventoryExtension & VehicleInventoryExtension>({
+            compartments: { ...data.compartments, [ItemManagerConfig.vehicles.defaultCompartment]: compartment },
+            items: null,
+            maxCells: null,
+            maxWeight: null,
+        })
+        .catch((err) => alt.logWarning(`[Vehicle Items] Failed to migrate ${_id}, ${err}`))
+        .finally(() => {
+            delete pendingMigrations[_id];
+        });
+
+    return pendingMigrations[_id];
+}
 
-export function useVehicleItemManager(vehicle: alt.Vehicle) {
+/**
+ * Manages a single compartment of a vehicle, uses the default compartment if not provided
+ *
+ * @export
+ * @param {alt.Vehicle} vehicle
+ * @param {string} [compartment=ItemManagerConfig.vehicles.defaultCompartment]
+ * @return
+ */
+export function useVehicleItemManager(
+    vehicle: alt.Vehicle,
+    compartment: string = ItemManagerConfig.vehicles.defaultCompartment,
+) {
     const itemArrayManager = useItemArrayManager();
     const document = Rebar.document.vehicle.useVehicle(vehicle);
+    const itemErrors = useItemErrors();
+    const capacity = vehicleCapacityManager.getCapacity(vehicle, compartment);
+    const lockKey = `vehicle:${document.get()._id}:${compartment}`;
+
+    // Compartments are saved together in one field, so a change locks the whole vehicle as well
+    const lockKeys = [`vehicle:${document.get()._id}`, lockKey];
+
+    const migration = migrate(document);
+
+    /**
+     * Returns the stored compartment, or an empty compartment if nothing was stored yet
+     *
+     * @return {VehicleCompartment}
+     */
+    function getCompartmentData(): VehicleCompartment {
+        const data = document.get<InventoryExtension & VehicleInventoryExtension>();
+
+        // Items from before compartments existed belong to the default compartment, until the migration is saved
+        const legacyCompartment = getLegacyCompartment(data);
+        if (legacyCompartment && compartment === ItemManagerConfig.vehicles.defaultCompartment) {
+            return legacyCompartment;
+        }
+
+        return data.compartments?.[compartment] ?? { items: [] };
+    }
+
+    /**
+     * Writes fields of the compartment to the database, other compartments are left as is
+     *
+     * @param {Partial<VehicleCompartment>} fields
+     */
+    async function updateCompartment(fields: Partial<VehicleCompartment>) {
+        await migration;
+
+        const compartments = { ...document.get<VehicleInventoryExtension>().compartments };
+        compartments[compartment] = { ...getCompartmentData(), ...fields };
+        await document.set<VehicleInventoryExtension>('compartments', compartments);
+    }
+
+    /**
+     * Checks the item rules for adding the item to the vehicle
+     *
+     * @param {Readonly<BaseItem>} item
+     * @return {ItemResult}
+     */
+    function checkRules(item: Readonly<BaseItem> | undefined): ItemResult {
+        if (!item) {
+            return { success: true };
+        }
+
+        const violatedRule = ruleManager.check(
+            item,
+            { action: 'add', container: 'vehicle', compartment },
+            vehicleCapacityManager.getCompartment(compartment)?.rules,
+        );
+        if (!violatedRule) {
+            return { success: true };
+        }
+
+        return itemErrors.fail(ItemErrorCode.RULE_RESTRICTED, { rule: violatedRule });
+    }
 
     /**
      * Finds a similar item based on `id` or creates a new item and adds it to the player's inventory
@@ -18,25 +178,35 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      * Saves to database
      *
      * @param {Item} item
-     * @return
+     * @return {Promise<ItemResult>}
      */
-    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}) {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            data.items = [];
+    async function add(id: ItemIDs, quantity: number, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(itemManager.getBaseItem(id));
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
         }
 
-        const items = itemArrayManager.add(id, quantity, data.items, addOptions);
-        if (!items) {
-            return false;
+        const data = getCompartmentData();
+
+        if (!addOptions.maxCells) {
+            addOptions.maxCells = getMaxCells();
+        }
+
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight();
+        }
+
+        const result = itemArrayManager.add(id, quantity, data.items, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemAdded(vehicle, id, quantity);
-        invoker.invokeOnItemsUpdated(vehicle, items);
+        invoker.invokeOnItemAdded(vehicle, id, quantity, compartment);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -45,54 +215,85 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      *
      * @param {Item} item - The specific item to add, including all its properties.
      * @param {AddOptions} [addOptions={}] - Additional options for adding the item.
-     * @returns {Promise<boolean>} A promise that resolves to `true` if the item was added successfully, otherwise `false`.
+     * @returns {Promise<ItemResult>} A promise that resolves to the result, with the reason on failure.
      */
-    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<boolean> {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            data.items = [];
+    async function addSpecificItem(item: Item, addOptions: AddOptions = {}): Promise<ItemResult> {
+        const ruleResult = checkRules(item);
+        if (ruleResult.success === false) {
+            return itemErrors.track(ruleResult);
+        }
+
+        const data = getCompartmentData();
+
+        if (!addOptions.maxCells) {
+            addOptions.maxCells = getMaxCells();
+        }
+
+        if (typeof addOptions.maxWeight === 'undefined') {
+            addOptions.maxWeight = getMaxWeight();
         }
 
-        const items = itemArrayManager.addSpecificItem(item, data.items, addOptions);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.addSpecificItem(item, data.items, addOptions);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemAdded(vehicle, item.id, item.quantity);
-        invoker.invokeOnItemsUpdated(vehicle, items);
+        invoker.invokeOnItemAdded(vehicle, item.id, item.quantity, compartment);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
-     * Remove an item by `id` and quantity
+     * Remove a quantity of an item stack by `uid`, use `removeById` to remove by `id` across multiple stacks
      *
      * Saves to database
      *
-     * @param {ItemIDs} id
+     * @param {string} uid
      * @param {number} quantity
-     * @return {Promise<boolean>}
+     * @return {Promise<ItemResult>}
      */
-    async function remove(id: ItemIDs, quantity: number): Promise<boolean> {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return false;
+    async function remove(uid: string, quantity: number): Promise<ItemResult> {
+        const data = getCompartmentData();
+        const result = itemArrayManager.remove(uid, quantity, data.items);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        const initialQuantity = quantity;
-        const items = itemArrayManager.remove(id, quantity, data.items);
-        if (!items) {
-            return false;
+        await updateItems(result.items);
+
+        const removedItem = data.items.find((item) => item.uid === uid);
+        invoker.invokeOnItemRemoved(vehicle, removedItem.id, quantity, compartment);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Remove a quantity of items by `id` across multiple stacks
+     *
+     * Saves to database
+     *
+     * @param {ItemIDs} id
+     * @param {number} quantity
+     * @param {ItemRemoveOrder} [order] Which stacks are drained first, uses the configured order if not provided
+     * @return {Promise<ItemResult>}
+     */
+    async function removeById(id: ItemIDs, quantity: number, order?: ItemRemoveOrder): Promise<ItemResult> {
+        const data = getCompartmentData();
+        const result = itemArrayManager.removeById(id, quantity, data.items, order);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemRemoved(vehicle, id, initialQuantity);
-        invoker.invokeOnItemsUpdated(vehicle, items);
+        invoker.invokeOnItemRemoved(vehicle, id, quantity, compartment);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -100,23 +301,20 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      *
      * @param {string} uid
      * @param {number} quantity
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function removeQuantityFrom(uid: string, quantity: number) {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            data.items = [];
-        }
+    async function removeQuantityFrom(uid: string, quantity: number): Promise<ItemResult> {
+        const data = getCompartmentData();
 
-        const items = itemArrayManager.removeQuantityFrom(uid, quantity, data.items);
-        if (!items) {
-            return false;
+        const result = itemArrayManager.removeQuantityFrom(uid, quantity, data.items);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
-        invoker.invokeOnItemsUpdated(vehicle, items);
+        await updateItems(result.items);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -125,7 +323,7 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      * @return {Readonly<Item[]>}
      */
     function get(): Readonly<Item[]> {
-        return (document.get<InventoryExtension>().items as Readonly<Item[]>) ?? ([] as Readonly<Item[]>);
+        return getCompartmentData().items as Readonly<Item[]>;
     }
 
     /**
@@ -152,6 +350,25 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
         return itemArrayManager.getData(uid, items);
     }
 
+    /**
+     * Find all items that match every filter of the query
+     *
+     * @param {ItemQuery} itemQuery
+     * @return {Readonly<Item>[]}
+     */
+    function query(itemQuery: ItemQuery): Readonly<Item>[] {
+        return itemArrayManager.query(itemQuery, get());
+    }
+
+    /**
+     * Get the totals of the compartment, ie. the quantity of every item and the free grid cells
+     *
+     * @return {ItemSummary}
+     */
+    function getSummary(): ItemSummary {
+        return itemArrayManager.getSummary(get(), getContainer().getOptions());
+    }
+
     /**
      * Check if they have enough of an item
      *
@@ -162,12 +379,7 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      * @return
      */
     function has(id: ItemIDs, quantity: number) {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return false;
-        }
-
-        return itemArrayManager.has(id, quantity, data.items);
+        return itemArrayManager.has(id, quantity, getCompartmentData().items);
     }
 
     /**
@@ -177,33 +389,20 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      *
      * @param {string} uidToStackOn
      * @param {string} uidToStack
-     * @return
+     * @return {Promise<ItemResult<{ item: Item }>>}
      */
-    async function stack(uidToStackOn: string, uidToStack: string) {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return {
-                success: false,
-                item: null,
-            };
-        }
-
+    async function stack(uidToStackOn: string, uidToStack: string): Promise<ItemResult<{ item: Item }>> {
+        const data = getCompartmentData();
         const result = itemArrayManager.stack(uidToStackOn, uidToStack, data.items);
-        if (!result.success) {
-            return {
-                success: false,
-                item: null,
-            };
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', result.items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemsUpdated(vehicle, result.items);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return {
-            success: true,
-            item: result.newItem,
-        };
+        return itemErrors.track({ success: true, item: result.newItem });
     }
 
     /**
@@ -214,36 +413,77 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      * @param {string} uid
      * @param {number} amountToSplit
      * @param {AddOptions} [options={}]
-     * @return
+     * @return {Promise<ItemResult<{ oldItem: Item; newItem: Item }>>}
      */
-    async function split(uid: string, amountToSplit: number, options: AddOptions = {}) {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-            };
+    async function split(
+        uid: string,
+        amountToSplit: number,
+        options: AddOptions = {},
+    ): Promise<ItemResult<{ oldItem: Item; newItem: Item }>> {
+        const data = getCompartmentData();
+        if (!options.maxCells) {
+            options.maxCells = getMaxCells();
+        }
+
+        if (typeof options.maxWeight === 'undefined') {
+            options.maxWeight = getMaxWeight();
         }
 
         const result = itemArrayManager.split(uid, amountToSplit, data.items, options);
-        if (!result.success) {
-            return {
-                success: false,
-                oldItem: null,
-                newItem: null,
-            };
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', result.items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemsUpdated(vehicle, result.items);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return {
-            success: true,
-            oldItem: result.oldItem,
-            newItem: result.newItem,
-        };
+        return itemErrors.track({ success: true, oldItem: result.oldItem, newItem: result.newItem });
+    }
+
+    /**
+     * Sort the compartment and place all items in the grid again in the new order
+     *
+     * Fails if the items no longer fit the grid
+     *
+     * Saves to database
+     *
+     * @param {ItemSortMode} mode
+     * @return {Promise<ItemResult>}
+     */
+    async function sort(mode: ItemSortMode): Promise<ItemResult> {
+        const result = itemArrayManager.sort(mode, getCompartmentData().items, getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Merge partial stacks of the same item up to their max stack, and place all items in the grid again
+     *
+     * Stacks with different data, durability, or decay are never merged
+     *
+     * Saves to database
+     *
+     * @return {Promise<ItemResult>}
+     */
+    async function compact(): Promise<ItemResult> {
+        const result = itemArrayManager.compact(getCompartmentData().items, getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
+        }
+
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
+
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -251,24 +491,45 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      *
      * @param {string} uid
      * @param {Partial<Omit<Item, '_id'>>} data
-     * @returns {boolean}
+     * @returns {Promise<ItemResult>}
      */
-    async function update(uid: string, data: Partial<Omit<Item, '_id'>>) {
-        const vehicleDocument = document.get<InventoryExtension>();
-        if (!vehicleDocument.items) {
-            return false;
+    async function update(uid: string, data: Partial<Omit<Item, '_id'>>): Promise<ItemResult> {
+        const result = itemArrayManager.update(uid, data, getCompartmentData().items);
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        const items = itemArrayManager.update(uid, data, vehicleDocument.items);
-        if (!items) {
-            return false;
+        await updateItems(result.items);
+
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
+
+        return itemErrors.track({ success: true });
+    }
+
+    /**
+     * Move an item to a new position in the vehicle's inventory grid, and optionally rotate it
+     *
+     * If another item occupies the target cells, both items swap places
+     *
+     * Saves to database
+     *
+     * @param {string} uid
+     * @param {{ x: number; y: number }} position
+     * @param {number} [rotation]
+     * @return {Promise<ItemResult>}
+     */
+    async function move(uid: string, position: { x: number; y: number }, rotation?: number): Promise<ItemResult> {
+        const data = getCompartmentData();
+        const result = itemArrayManager.move(uid, position, rotation, data.items, getContainer().getOptions());
+        if (result.success === false) {
+            return itemErrors.track(result);
         }
 
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(result.items);
 
-        invoker.invokeOnItemsUpdated(vehicle, items);
+        invoker.invokeOnItemsUpdated(vehicle, result.items, compartment);
 
-        return true;
+        return itemErrors.track({ success: true });
     }
 
     /**
@@ -277,30 +538,121 @@ export function useVehicleItemManager(vehicle: alt.Vehicle) {
      * @return {Promise<void>}
      */
     async function invokeDecay(): Promise<void> {
-        const data = document.get<InventoryExtension>();
-        if (!data.items) {
+        const data = getCompartmentData();
+        if (data.items.length <= 0) {
             return;
         }
 
         const items = itemArrayManager.invokeDecay(data.items);
-        await document.set<InventoryExtension>('items', items);
+        await updateItems(items);
+
+        invoker.invokeOnItemsUpdated(vehicle, items, compartment);
+    }
+
+    /**
+     * Get the max cells of the vehicle inventory, uses the model or class capacity if the vehicle has none stored
+     *
+     * @return {{ width: number; height: number }}
+     */
+    function getMaxCells(): { width: number; height: number } {
+        return getCompartmentData().maxCells ?? capacity.maxCells;
+    }
+
+    /**
+     * Store max cells on the vehicle, uses the model or class capacity if not provided
+     *
+     * @param {{ width: number; height: number }} [maxCells]
+     */
+    async function setMaxCells(maxCells?: { width: number; height: number }) {
+        await updateCompartment({ maxCells });
+    }
+
+    /**
+     * Get the maximum weight of the vehicle inventory, including all carry capacity modifiers
+     *
+     * @return {number}
+     */
+    function getMaxWeight(): number {
+        const data = getCompartmentData();
+        const maxWeight = typeof data.maxWeight === 'number' ? data.maxWeight : capacity.maxWeight;
+        return capacityManager.getMaxWeight(maxWeight, { container: 'vehicle', items: data.items, vehicle });
+    }
+
+    /**
+     * Store a maximum weight on the vehicle, uses the model or class capacity if not provided
+     *
+     * @param {number} [maxWeight]
+     */
+    async function setMaxWeight(maxWeight?: number) {
+        await updateCompartment({ maxWeight });
+    }
+
+    /**
+     * Update items and write to the database
+     *
+     * @param {Item[]} items
+     */
+    async function updateItems(items: Item[]) {
+        await updateCompartment({ items });
+    }
+
+    /**
+     * Returns a generic container for the vehicle inventory, used to move items between inventories
+     *
+     * @return {ItemContainer}
+     */
+    function getContainer(): ItemContainer {
+        return {
+            type: 'vehicle',
+            key: lockKey,
+            lockKeys,
+            compartment,
+            rules: vehicleCapacityManager.getCompartment(compartment)?.rules,
+            async getItems() {
+                return Utility.clone.arrayData(getCompartmentData().items);
+            },
+            getOptions() {
+                return { maxCells: getMaxCells(), maxWeight: getMaxWeight() };
+            },
+            setItems: updateItems,
+            invokeOnItemAdded(id: string, quantity: number) {
+                invoker.invokeOnItemAdded(vehicle, id, quantity, compartment);
+            },
+            invokeOnItemRemoved(id: string, quantity: number) {
+                invoker.invokeOnItemRemoved(vehicle, id, quantity, compartment);
+            },
+            invokeOnItemsUpdated(items: Item[]) {
+                invoker.invokeOnItemsUpdated(vehicle, items, compartment);
+            },
+        };
     }
 
     return {
-        add,
-        addSpecificItem,
+        add: lockManager.wrap(lockKeys, add),
+        addSpecificItem: lockManager.wrap(lockKeys, addSpecificItem),
+        compact: lockManager.wrap(lockKeys, compact),
         get,
         getAt,
+        getCompartment: () => compartment,
+        getContainer,
         getData,
-        getErrorMessage() {
-            return itemArrayManager.getErrorMessage();
-        },
+        getError: itemErrors.getError,
+        getErrorMessage: itemErrors.getErrorMessage,
+        getMaxCells,
+        getMaxWeight,
+        getSummary,
         has,
-        invokeDecay,
-        remove,
-        removeQuantityFrom,
-        split,
-        stack,
-        update,
+        invokeDecay: lockManager.wrap(lockKeys, invokeDecay),
+        move: lockManager.wrap(lockKeys, move),
+        query,
+        remove: lockManager.wrap(lockKeys, remove),
+        removeById: lockManager.wrap(lockKeys, removeById),
+        removeQuantityFrom: lockManager.wrap(lockKeys, removeQuantityFrom),
+        setMaxCells: lockManager.wrap(lockKeys, setMaxCells),
+        setMaxWeight: lockManager.wrap(lockKeys, setMaxWeight),
+        sort: lockManager.wrap(lockKeys, sort),
+        split: lockManager.wrap(lockKeys, split),
+        stack: lockManager.wrap(lockKeys, stack),
+        update: lockManager.wrap(lockKeys, update),
     };
 }
@@ -1,30 +1,30 @@
 import * as alt from 'alt-server';
 import { Item } from '../shared/types.js';
 
-type VehicleItemAddedCallback = (vehicle: alt.Vehicle, id: string, quantity: number) => void;
-type VehicleItemRemovedCallback = (vehicle: alt.Vehicle, id: string, quantity: number) => void;
-type VehicleItemUpdatedCallback = (vehicle: alt.Vehicle, items: Item[]) => void;
+type VehicleItemAddedCallback = (vehicle: alt.Vehicle, id: string, quantity: number, compartment: string) => void;
+type VehicleItemRemovedCallback = (vehicle: alt.Vehicle, id: string, quantity: number, compartment: string) => void;
+type VehicleItemUpdatedCallback = (vehicle: alt.Vehicle, items: Item[], compartment: string) => void;
 
 const onItemAddedCallbacks: VehicleItemAddedCallback[] = [];
 const onItemRemovedCallbacks: VehicleItemRemovedCallback[] = [];
 const onItemsUpdatedCallbacks: VehicleItemUpdatedCallback[] = [];
 
 export function useVehicleItemManagerEventInvoker() {
-    function invokeOnItemAdded(vehicle: alt.Vehicle, id: string, quantity: number) {
+    function invokeOnItemAdded(vehicle: alt.Vehicle, id: string, quantity: number, compartment: string) {
         for (let cb of onItemAddedCallbacks) {
-            cb(vehicle, id, quantity);
+            cb(vehicle, id, quantity, compartment);
         }
     }
 
-    function invokeOnItemRemoved(vehicle: alt.Vehicle, id: string, quantity: number) {
+    function invokeOnItemRemoved(vehicle: alt.Vehicle, id: string, quantity: number, compartment: string) {
         for (let cb of onItemRemovedCallbacks) {
-            cb(vehicle, id, quantity);
+            cb(vehicle, id, quantity, compartment);
         }
     }
 
-    function invokeOnItemsUpdated(vehicle: alt.Vehicle, items: Item[]) {
+    function invokeOnItemsUpdated(vehicle: alt.Vehicle, items: Item[], compartment: string) {
         for (let cb of onItemsUpdatedCallbacks) {
-            cb(vehicle, items);
+            cb(vehicle, items, compartment);
         }
     }
 
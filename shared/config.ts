@@ -1,6 +1,9 @@
+import { ItemRemoveOrder, VehicleCapacity } from './types.js';
+
 export const ItemManagerConfig = {
     collectionName: 'SimpleItems',
     collectionNameForStorage: 'SimpleItemsStorage',
+    collectionNameForDroppedItems: 'SimpleItemsDropped',
     // Determines how much weight a container can hold
     // This can be modified when calling functions
     weight: {
@@ -16,4 +19,55 @@ export const ItemManagerConfig = {
             height: 20,
         },
     },
+    // Determines the size of vehicle inventories, vehicles that are not listed use `slots` and `weight`
+    // A model entry overrides a class entry, register a class resolver with `useVehicleCapacityManager`
+    vehicles: {
+        // The compartment used when no compartment is given, its size is based on the model and class
+        defaultCompartment: 'trunk',
+        // Other compartments have the same size on every vehicle
+        compartments: {
+            glovebox: { maxCells: { width: 3, height: 2 }, maxWeight: 5 },
+            secret: { maxCells: { width: 2, height: 2 }, maxWeight: 10 },
+        },
+        // Keyed by model name, ie. `bati`
+        models: {} as { [model: string]: VehicleCapacity },
+        // Keyed by vehicle class id, ie. `8` for motorcycles
+        classes: {} as { [vehicleClass: string]: VehicleCapacity },
+    },
+    // Equipment slots are separate from the inventory grid, items list the slots they fit in with `equipSlots`
+    equipment: {
+        slots: ['head', 'body', 'hands', 'back', 'primary', 'secondary'],
+    },
+    // Determines which stacks are drained first when removing items by id
+    // Can be `newest`, `oldest`, `durability`, or `decay`, and can be modified when calling functions
+    remove: {
+        order: 'newest' as ItemRemoveOrder,
+    },
+    // Hotbar slots are numbered from 1, bindings point to items in the inventory grid
+    hotbar: {
+        slots: 9,
+    },
+    // Sends inventory changes to the owning player, and to every player viewing a storage or vehicle
+    sync: {
+        enabled: true,
+    },
+    // Determines the language of error messages
+    // Players use the `language` field on their character, register more languages with `useItemLocaleManager`
+    locale: {
+        default: 'en',
+    },
+    // Loads base items from .json, .yaml, and .yml files in a folder
+    // Each file can contain a single item or a list of items
+    definitions: {
+        enabled: false,
+        path: './src/plugins/asc-item-manager/items',
+        // Reloads the items whenever a file in the folder changes
+        watch: true,
+    },
+    // Determines how long items stay on the ground after being dropped
+    // Dropped items also decay every in-game hour like any other item
+    droppedItems: {
+        // Time in milliseconds, checked every in-game hour, set to 0 to never despawn
+        despawnTime: 60000 * 30,
+    },
 };
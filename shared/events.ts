@@ -0,0 +1,12 @@
+export const ItemManagerEvents = {
+    toClient: {
+        // Sends an `ItemSyncDiff` with the items that changed since the last version
+        syncDiff: 'item-manager:sync-diff',
+        // Sends an `ItemSyncFull` with all items, when an inventory is opened or a full sync was requested
+        syncFull: 'item-manager:sync-full',
+    },
+    toServer: {
+        // Requests an `ItemSyncFull` for an inventory key, ie. when the client missed a version
+        requestSync: 'item-manager:request-sync',
+    },
+};
@@ -1,6 +1,11 @@
+import { ItemIDs } from './ignoreItemIds.js';
+
 declare module '@Shared/types/character.js' {
     export interface Character {
         inventoryCells: { width: number; height: number };
+        maxWeight?: number;
+        equipment?: { [slot: string]: Item };
+        hotbar?: { [slot: number]: HotbarBinding };
     }
 }
 
@@ -21,6 +26,60 @@ export type InventoryExtension = {
         width: number;
         height: number;
     };
+
+    /**
+     * The maximum weight the inventory can hold, before carry capacity modifiers are applied
+     *
+     * Uses `ItemManagerConfig.weight.maxWeight` if not set
+     *
+     * @type {number}
+     */
+    maxWeight?: number;
+};
+
+export type EquipmentExtension = {
+    /**
+     * Items the player has equipped, keyed by slot name
+     *
+     * @type {{ [slot: string]: Item }}
+     */
+    equipment?: { [slot: string]: Item };
+};
+
+export type HotbarBinding = {
+    /**
+     * The uid of the item in the inventory grid
+     *
+     * @type {string}
+     */
+    uid: string;
+
+    /**
+     * Removes one of the item when the slot is used, ie. for food
+     *
+     * @type {boolean}
+     */
+    consume: boolean;
+};
+
+export type HotbarExtension = {
+    /**
+     * Items bound to the hotbar, keyed by slot number starting at `1`
+     *
+     * @type {{ [slot: number]: HotbarBinding }}
+     */
+    hotbar?: { [slot: number]: HotbarBinding };
+};
+
+export type LocaleExtension = {
+    /**
+     * The language used for item messages sent to the player, ie. `en` or `de`
+     *
+     * Falls back to `ItemManagerConfig.locale.default` if not set
+     *
+     * @type {string}
+     */
+    language?: string;
 };
 
 export type Storage = {
@@ -59,8 +118,74 @@ export type Storage = {
      * @type {boolean}
      */
     noDecay?: boolean;
+
+    /**
+     * Only items with one of these categories or tags can be added to the storage
+     *
+     * @type {ItemFilter}
+     */
+    allow?: ItemFilter;
+
+    /**
+     * Items with one of these categories or tags can never be added to the storage
+     *
+     * @type {ItemFilter}
+     */
+    deny?: ItemFilter;
 } & InventoryExtension;
 
+/**
+ * A list of item categories and tags, an item matches if it has any of them
+ */
+export type ItemFilter = {
+    /**
+     * @type {string[]}
+     */
+    categories?: string[];
+
+    /**
+     * @type {string[]}
+     */
+    tags?: string[];
+};
+
+export type DroppedItem = {
+    /**
+     * Database ID for the dropped item
+     *
+     * @type {string}
+     */
+    _id: string;
+
+    /**
+     * The item that was dropped, including all of its data
+     *
+     * @type {Item}
+     */
+    item: Item;
+
+    /**
+     * The position the item was dropped at
+     *
+     * @type {{x: number, y: number, z: number}}
+     */
+    pos: { x: number; y: number; z: number };
+
+    /**
+     * The dimension the item was dropped in
+     *
+     * @type {number}
+     */
+    dimension: number;
+
+    /**
+     * The date in which the item was dropped
+     *
+     * @type {number}
+     */
+    droppedAt: number;
+};
+
 export type BaseItem = {
     /**
      * A general purpose item identifier.
@@ -85,6 +210,24 @@ export type BaseItem = {
      */
     desc: string;
 
+    /**
+     * The category of the item, used for sorting inventories and restricting what an inventory accepts
+     *
+     * ie. `food` or `weapon`
+     *
+     * @type {string}
+     */
+    category?: string;
+
+    /**
+     * Tags that further describe the item, used for restricting what an inventory accepts
+     *
+     * ie. `['cold', 'perishable']`
+     *
+     * @type {string[]}
+     */
+    tags?: string[];
+
     /**
      * The width and height of the item in cells
      *
@@ -100,7 +243,9 @@ export type BaseItem = {
     height: number;
 
     /**
-     * The position of the item in the inventory
+     * The top left cell of the item in the inventory grid
+     *
+     * Assigned automatically when an item is added and no free position is given
      *
      * @type {{x: number, y: number}}
      */
@@ -110,7 +255,9 @@ export type BaseItem = {
     };
 
     /**
-     * The rotation of the item in the inventory
+     * The rotation of the item in the inventory in degrees
+     *
+     * A rotation of `90` or `270` swaps the width and height of the item on the grid
      *
      * @type {number}
      */
@@ -166,10 +313,34 @@ export type BaseItem = {
      */
     useEventName?: string;
 
+    /**
+     * The equipment slots the item can be equipped in, ie. `['head']` or `['primary', 'secondary']`
+     *
+     * Slots must be listed in `ItemManagerConfig.equipment.slots`
+     *
+     * @type {string[]}
+     */
+    equipSlots?: string[];
+
+    /**
+     * Turns the item into an inventory of its own, ie. a backpack or a wallet
+     *
+     * The contents are stored in `data.items` of the item, and count towards the weight of the item
+     *
+     * @type {{ maxCells: { width: number; height: number }; maxWeight?: number }}
+     */
+    container?: {
+        maxCells: {
+            width: number;
+            height: number;
+        };
+        maxWeight?: number;
+    };
+
     /**
      * Optional ruleset to further describe how the item will work
      *
-     * Item manager does not manage these rules, just a placeholder to help with rules
+     * Rules are enforced by the item manager, custom rules can be registered with `useItemRuleManager`
      */
     rules?: {
         /**
@@ -194,6 +365,13 @@ export type BaseItem = {
          * @type {boolean}
          */
         noDropping?: boolean;
+
+        /**
+         * Any custom rule registered with `useItemRuleManager`
+         *
+         * ie. `noVehicle`, or `bindOnPickup`
+         */
+        [rule: string]: boolean | undefined;
     };
 };
 
@@ -254,6 +432,109 @@ export type AddOptions = {
      * @type {{[key: string]: string | number | Array<any>}}
      */
     data?: { [key: string]: string | number | Array<any> };
+
+    /**
+     * Only items with one of these categories or tags can be added
+     *
+     * ie. `{ categories: ['food'] }` for a fridge
+     *
+     * @type {ItemFilter}
+     */
+    allow?: ItemFilter;
+
+    /**
+     * Items with one of these categories or tags can never be added
+     *
+     * @type {ItemFilter}
+     */
+    deny?: ItemFilter;
+};
+
+export enum ItemErrorCode {
+    BASE_ITEM_NOT_FOUND = 'BASE_ITEM_NOT_FOUND',
+    ITEM_NOT_FOUND = 'ITEM_NOT_FOUND',
+    INVALID_QUANTITY = 'INVALID_QUANTITY',
+    INSUFFICIENT_QUANTITY = 'INSUFFICIENT_QUANTITY',
+    SLOTS_EXCEEDED = 'SLOTS_EXCEEDED',
+    WEIGHT_EXCEEDED = 'WEIGHT_EXCEEDED',
+    OUT_OF_BOUNDS = 'OUT_OF_BOUNDS',
+    COLLISION = 'COLLISION',
+    NOT_STACKABLE = 'NOT_STACKABLE',
+    NOT_SAME_ITEM = 'NOT_SAME_ITEM',
+    MAX_STACK_EXCEEDED = 'MAX_STACK_EXCEEDED',
+    CANNOT_SPLIT = 'CANNOT_SPLIT',
+    BROKEN = 'BROKEN',
+    NO_USAGE_EVENT = 'NO_USAGE_EVENT',
+    RULE_RESTRICTED = 'RULE_RESTRICTED',
+    SAME_CONTAINER = 'SAME_CONTAINER',
+    SAVE_FAILED = 'SAVE_FAILED',
+    ALREADY_TRADING = 'ALREADY_TRADING',
+    NOT_TRADING = 'NOT_TRADING',
+    TRADE_WITH_SELF = 'TRADE_WITH_SELF',
+    NOT_OFFERED = 'NOT_OFFERED',
+    TRADE_CHANGED = 'TRADE_CHANGED',
+    RECIPE_NOT_FOUND = 'RECIPE_NOT_FOUND',
+    MISSING_TOOL = 'MISSING_TOOL',
+    LOOT_TABLE_NOT_FOUND = 'LOOT_TABLE_NOT_FOUND',
+    PICKUP_IN_PROGRESS = 'PICKUP_IN_PROGRESS',
+    DROP_RESTORE_FAILED = 'DROP_RESTORE_FAILED',
+    NOT_A_CONTAINER = 'NOT_A_CONTAINER',
+    CONTAINER_RECURSION = 'CONTAINER_RECURSION',
+    EQUIP_SLOT_NOT_FOUND = 'EQUIP_SLOT_NOT_FOUND',
+    NOT_EQUIPPABLE = 'NOT_EQUIPPABLE',
+    HOTBAR_SLOT_NOT_FOUND = 'HOTBAR_SLOT_NOT_FOUND',
+    CATEGORY_RESTRICTED = 'CATEGORY_RESTRICTED',
+}
+
+export type ItemError = {
+    /**
+     * A code that describes why the operation failed, use this to branch on failures
+     *
+     * @type {ItemErrorCode}
+     */
+    code: ItemErrorCode;
+
+    /**
+     * A readable description of the error
+     *
+     * @type {string}
+     */
+    message: string;
+
+    /**
+     * Any values that help describe the error
+     *
+     * ie. `{ uid: 'abc' }` for `ITEM_NOT_FOUND`
+     *
+     * @type {{ [key: string]: any }}
+     */
+    details?: { [key: string]: any };
+};
+
+/**
+ * The result of an operation, failed operations contain an `error` with a code
+ */
+export type ItemResult<T extends object = {}> = ({ success: true } & T) | { success: false; error: ItemError };
+
+/**
+ * Messages for error codes in a single language, `{key}` placeholders are replaced with the error details
+ */
+export type ItemMessages = { [code in ItemErrorCode]?: string };
+
+export type ItemValidationError = {
+    /**
+     * The field of the item that is invalid
+     *
+     * @type {string}
+     */
+    field: string;
+
+    /**
+     * Why the field is invalid
+     *
+     * @type {string}
+     */
+    message: string;
 };
 
 export type DatabaseBaseItem = {
@@ -264,3 +545,456 @@ export type DatabaseBaseItem = {
      */
     _id: string;
 } & BaseItem;
+
+export type ItemContainerType = 'player' | 'vehicle' | 'storage';
+
+/**
+ * Which stacks are drained first when removing items by `id`
+ *
+ * `newest` and `oldest` use the order the stacks were added, `durability` and `decay` start with the lowest value
+ */
+export type ItemRemoveOrder = 'newest' | 'oldest' | 'durability' | 'decay';
+
+/**
+ * How items are ordered when sorting an inventory
+ *
+ * `weight` puts the heaviest items first, items without a `category` are sorted last
+ */
+export type ItemSortMode = 'name' | 'weight' | 'id' | 'category';
+
+/**
+ * Filters for finding items, an item must match every filter that is set
+ */
+export type ItemQuery = {
+    /**
+     * Only items with one of these ids
+     *
+     * @type {(ItemIDs | ItemIDs[])}
+     */
+    id?: ItemIDs | ItemIDs[];
+
+    /**
+     * Only items with one of these categories
+     *
+     * @type {(string | string[])}
+     */
+    category?: string | string[];
+
+    /**
+     * Only items with at least one of these tags
+     *
+     * @type {string[]}
+     */
+    tags?: string[];
+
+    /**
+     * Only items where the callback returns `true` for the item data
+     *
+     * @type {(data: Readonly<{ [key: string]: any }>) => boolean}
+     */
+    data?: (data: Readonly<{ [key: string]: any }>) => boolean;
+
+    /**
+     * Only items with a durability in the range, both ends are inclusive
+     *
+     * Items without durability never match
+     *
+     * @type {{ min?: number; max?: number }}
+     */
+    durability?: { min?: number; max?: number };
+
+    /**
+     * Only items that decay within this many in-game hours
+     *
+     * Items that never decay never match
+     *
+     * @type {number}
+     */
+    decayWithin?: number;
+
+    /**
+     * Only items where every listed rule is enabled or disabled, ie. `{ noTrading: true }`
+     *
+     * @type {{ [rule: string]: boolean }}
+     */
+    rules?: { [rule: string]: boolean };
+};
+
+/**
+ * Totals for an inventory, used to answer common questions without going through all items
+ */
+export type ItemSummary = {
+    /**
+     * The total quantity of every item id
+     *
+     * @type {{ [id: string]: number }}
+     */
+    counts: { [id: string]: number };
+
+    /**
+     * The total weight of all items, including the contents of container items
+     *
+     * @type {number}
+     */
+    weight: number;
+
+    /**
+     * The amount of grid cells that are not occupied
+     *
+     * @type {number}
+     */
+    freeCells: number;
+
+    /**
+     * The largest free rectangle in the grid, the largest item that still fits
+     *
+     * @type {{ width: number; height: number }}
+     */
+    largestFreeArea: { width: number; height: number };
+};
+
+export type ItemRuleAction = 'add' | 'transfer' | 'trade' | 'drop';
+
+export type ItemContainer = {
+    /**
+     * What kind of inventory the items belong to
+     *
+     * @type {ItemContainerType}
+     */
+    type: ItemContainerType;
+
+    /**
+     * A unique key for the inventory, used to tell two inventories apart
+     *
+     * ie. `storage:some-stash`
+     *
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Every key that is locked while the inventory changes, starting with the key of the outermost inventory
+     *
+     * A container item is saved through its parent inventories, so their keys are included
+     *
+     * @type {string[]}
+     */
+    lockKeys: string[];
+
+    /**
+     * The vehicle compartment the inventory belongs to, if any
+     *
+     * @type {string}
+     */
+    compartment?: string;
+
+    /**
+     * Rules that are checked for every item going into the inventory
+     *
+     * @type {{ [rule: string]: boolean }}
+     */
+    rules?: { [rule: string]: boolean };
+
+    /**
+     * Returns a mutable copy of all items in the inventory
+     *
+     * @return {Promise<Item[]>}
+     */
+    getItems(): Promise<Item[]>;
+
+    /**
+     * Returns the slot and weight limits of the inventory
+     *
+     * @return {Omit<AddOptions, 'data'>}
+     */
+    getOptions(): Omit<AddOptions, 'data'>;
+
+    /**
+     * Writes the items to the database without invoking any events
+     *
+     * @param {Item[]} items
+     * @return {Promise<void>}
+     */
+    setItems(items: Item[]): Promise<void>;
+
+    invokeOnItemAdded(id: string, quantity: number): void;
+    invokeOnItemRemoved(id: string, quantity: number): void;
+    invokeOnItemsUpdated(items: Item[]): void;
+};
+
+/**
+ * Any manager that can hand out a container, such as `usePlayerItemManager`
+ */
+export type ItemContainerOwner = { getContainer(): ItemContainer };
+
+export type TradeOffer = {
+    /**
+     * The unique identifier of the offered item stack
+     *
+     * @type {string}
+     */
+    uid: string;
+
+    /**
+     * How many items of the stack are offered
+     *
+     * @type {number}
+     */
+    quantity: number;
+};
+
+export type Recipe = {
+    /**
+     * A unique identifier for the recipe
+     *
+     * ie. `craft-plank`
+     *
+     * @type {string}
+     */
+    id: string;
+
+    /**
+     * The display name of the recipe
+     *
+     * @type {string}
+     */
+    name?: string;
+
+    /**
+     * Items and quantities that are consumed for every craft
+     *
+     * @type {Array<{ id: ItemIDs, quantity: number }>}
+     */
+    inputs: Array<{ id: ItemIDs; quantity: number }>;
+
+    /**
+     * Items that are required but not consumed, they lose `durability` for every craft instead
+     *
+     * Tools without durability never wear down
+     *
+     * Crafting fails with `BROKEN` if no tool has enough durability left for all crafts
+     *
+     * @type {Array<{ id: ItemIDs, durabilityCost: number }>}
+     */
+    tools?: Array<{ id: ItemIDs; durabilityCost: number }>;
+
+    /**
+     * Items and quantities that are created for every craft
+     *
+     * @type {Array<{ id: ItemIDs, quantity: number, data?: { [key: string]: string | number | Array<any> } }>}
+     */
+    outputs: Array<{ id: ItemIDs; quantity: number; data?: { [key: string]: string | number | Array<any> } }>;
+};
+
+export type LootEntry = {
+    /**
+     * The chance of this entry compared to the weight of all other entries in the table
+     *
+     * Ignored for guaranteed entries
+     *
+     * @type {number}
+     */
+    weight: number;
+
+    /**
+     * The item to drop, either `id` or `table` must be set
+     *
+     * @type {ItemIDs}
+     */
+    id?: ItemIDs;
+
+    /**
+     * A nested loot table to roll, either `id` or `table` must be set
+     *
+     * @type {string}
+     */
+    table?: string;
+
+    /**
+     * The minimum quantity of the item, or the minimum rolls of the nested table
+     *
+     * Defaults to `1`
+     *
+     * @type {number}
+     */
+    min?: number;
+
+    /**
+     * The maximum quantity of the item, or the maximum rolls of the nested table
+     *
+     * Defaults to `min`
+     *
+     * @type {number}
+     */
+    max?: number;
+
+    /**
+     * Any custom data for the dropped item
+     *
+     * @type {{[key: string]: string | number | Array<any>}}
+     */
+    data?: { [key: string]: string | number | Array<any> };
+};
+
+export type LootTable = {
+    /**
+     * A unique identifier for the loot table
+     *
+     * ie. `dumpster`
+     *
+     * @type {string}
+     */
+    id: string;
+
+    /**
+     * How many weighted entries are picked every time the table is rolled
+     *
+     * Defaults to `1`
+     *
+     * @type {(number | { min: number; max: number })}
+     */
+    rolls?: number | { min: number; max: number };
+
+    /**
+     * Weighted entries that are picked at random
+     *
+     * @type {LootEntry[]}
+     */
+    entries: LootEntry[];
+
+    /**
+     * Entries that always drop every time the table is rolled
+     *
+     * @type {LootEntry[]}
+     */
+    guaranteed?: LootEntry[];
+};
+
+export type LootDrop = {
+    id: ItemIDs;
+    quantity: number;
+    data?: { [key: string]: string | number | Array<any> };
+};
+
+export type VehicleCapacity = {
+    /**
+     * The max cells of the vehicle inventory
+     *
+     * @type {{width: number, height: number}}
+     */
+    maxCells?: {
+        width: number;
+        height: number;
+    };
+
+    /**
+     * The maximum weight the vehicle inventory can hold
+     *
+     * @type {number}
+     */
+    maxWeight?: number;
+};
+
+export type VehicleCompartmentDefinition = {
+    /**
+     * Rules that are checked for every item added to the compartment, ie. `{ noWeapons: true }`
+     *
+     * @type {{ [rule: string]: boolean }}
+     */
+    rules?: { [rule: string]: boolean };
+} & VehicleCapacity;
+
+export type VehicleCompartment = {
+    /**
+     * Items in the compartment
+     *
+     * @type {Array<Item>}
+     */
+    items: Array<Item>;
+
+    /**
+     * The max cells of the compartment, overrides the compartment definition
+     *
+     * @type {{width: number, height: number}}
+     */
+    maxCells?: {
+        width: number;
+        height: number;
+    };
+
+    /**
+     * The maximum weight of the compartment, overrides the compartment definition
+     *
+     * @type {number}
+     */
+    maxWeight?: number;
+};
+
+export type VehicleInventoryExtension = {
+    /**
+     * Named compartments of the vehicle, ie. `trunk` or `glovebox`
+     *
+     * @type {{ [name: string]: VehicleCompartment }}
+     */
+    compartments?: { [name: string]: VehicleCompartment };
+};
+
+export type ItemSyncDiff = {
+    /**
+     * The key of the inventory, ie. `player:abc` or `storage:some-stash`
+     *
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * Increases by one for every diff, request a full sync if a version was skipped
+     *
+     * @type {number}
+     */
+    version: number;
+
+    /**
+     * Items that were not in the inventory before
+     *
+     * @type {Item[]}
+     */
+    added: Item[];
+
+    /**
+     * Uids of items that are no longer in the inventory
+     *
+     * @type {string[]}
+     */
+    removed: string[];
+
+    /**
+     * Items that are still in the inventory, but have changed
+     *
+     * @type {Item[]}
+     */
+    changed: Item[];
+};
+
+export type ItemSyncFull = {
+    /**
+     * The key of the inventory, ie. `player:abc` or `storage:some-stash`
+     *
+     * @type {string}
+     */
+    key: string;
+
+    /**
+     * The current version of the inventory, the next diff has this version plus one
+     *
+     * @type {number}
+     */
+    version: number;
+
+    /**
+     * All items in the inventory
+     *
+     * @type {Item[]}
+     */
+    items: Item[];
+};